@@ -1,12 +1,63 @@
 import React, { useEffect, useState, useMemo, useRef } from 'react';
-import { fetchSalesData, getMockData } from './services/dataService';
-import { Order, DailyStat, LoadingState } from './types';
+import { fetchMergedSalesData, loadCachedSalesData, getMockData } from './services/dataService';
+import { loadSources, saveSources, loadSelectedSourceIds, saveSelectedSourceIds } from './services/sourceService';
+import { Order, LoadingState, DataSource, ColumnMapping, Product, OrderStatus, OrderTracking } from './types';
 import { StatsCard } from './components/StatsCard';
-import { RevenueChart } from './components/Charts';
+import { ChartPanel } from './components/ChartPanel';
+import { OrderHeatmap } from './components/OrderHeatmap';
+import { ProductAnalytics } from './components/ProductAnalytics';
+import { ExportMenu } from './components/ExportMenu';
+import { OrderTable } from './components/OrderTable';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { apiAnalysisProvider } from './services/analysisService';
+import { DataChat } from './components/DataChat';
+import { apiQuestionProvider } from './services/dataQuestionService';
+import { QueryContext } from './services/dataQueryExecutor';
+import { OrderTrackingEditor, OrderStatusFilter } from './components/OrderTracking';
+import {
+  loadOrderTracking, saveOrderTracking, loadStatusFilter, saveStatusFilter, getOrderTracking, updateOrderTracking,
+  filterOrdersByStatus, splitRevenueByStatus
+} from './services/orderTrackingService';
+import { PrintReport } from './components/PrintReport';
+import { TargetProgress } from './components/TargetProgress';
+import { RevenueTargets, loadRevenueTargets, saveRevenueTargets, getMonthTarget, resolveTarget, buildTargetProgress } from './services/targetService';
+import { ProductCatalogEditor } from './components/ProductCatalogEditor';
+import { loadProducts, saveProducts, matchOrderProducts } from './services/productService';
+import { SourceSwitcher, DataSourceManager } from './components/DataSourceManager';
+import { ColumnMappingEditor } from './components/ColumnMappingEditor';
+import { ImportIssuesPanel } from './components/ImportIssuesPanel';
+import { NewOrdersBadge } from './components/NewOrdersBadge';
+import { CustomerIdentityPanel } from './components/CustomerIdentityPanel';
+import { CustomerList } from './components/CustomerList';
+import { CustomerProfileModal } from './components/CustomerProfileModal';
+import { buildCustomerProfiles } from './services/customerProfileService';
+import {
+  CustomerDecisions, loadCustomerDecisions, saveCustomerDecisions, resolveCustomerKeys, findDuplicateSuggestions,
+  mergeCustomers, unmergeCustomer, dismissSuggestion, toggleOrderSplit
+} from './services/customerService';
+import { RefreshStatusIndicator } from './components/RefreshStatusIndicator';
+import {
+  RefreshIntervalId, RefreshStatus, RefreshPauseReason, INITIAL_REFRESH_STATUS,
+  loadRefreshInterval, saveRefreshInterval, getIntervalMs, computeRefreshDelay
+} from './services/refreshPolicy';
+import { diffOrders, pruneChangeMarks, ChangeMark, RemovedMark, HIGHLIGHT_DURATION } from './services/orderDiff';
+import {
+  NotificationSettings, loadNotificationSettings, saveNotificationSettings,
+  playNewOrderChime, showNewOrdersNotification
+} from './services/notificationService';
+import { loadFromStorage, saveToStorage } from './services/storage';
+import {
+  Delta, Granularity, filterOrdersByRange, buildDailyStats, summarizeStats, getComparisonRange, computeDelta,
+  alignComparison, rebucketStats, addCustomerMix, buildMonthCumulative
+} from './services/statsService';
+import { DATE_PRESETS, isDatePreset, resolveDatePreset, getDateFilterLabel } from './services/dateRanges';
+import { readViewStateFromUrl, writeViewStateToUrl } from './services/urlState';
+import { buildForecastModel, forecastDays, forecastMonthTotal, backtestForecast, FORECAST_CONFIDENCE } from './services/forecastService';
+import { toDateKey, todayKey, addDays, addMonths, formatDate, formatDateKey, formatTime, formatDateTime, getBusinessTimeZone, setBusinessTimeZone } from './services/dateUtils';
 import { 
   LayoutDashboard, TrendingUp, ShoppingBag, DollarSign, RefreshCw, 
   AlertCircle, User, FileText, Facebook, 
-  Calendar, X, Clock
+  Calendar, X, Clock, WifiOff, Users, Printer, CalendarClock
 } from 'lucide-react';
 
 export default function App() {
@@ -14,46 +65,79 @@ export default function App() {
   const [loadingState, setLoadingState] = useState<LoadingState>(LoadingState.IDLE);
   const [errorMsg, setErrorMsg] = useState<string>('');
   const [isUsingMock, setIsUsingMock] = useState(false);
-  const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+
+  // Auto-Refresh States
+  const [refreshIntervalId, setRefreshIntervalId] = useState<RefreshIntervalId>(() => loadRefreshInterval());
+  const [refreshStatus, setRefreshStatus] = useState<RefreshStatus>(INITIAL_REFRESH_STATUS);
+  const [nextRefreshAt, setNextRefreshAt] = useState<number | null>(null);
+  const [isPageVisible, setIsPageVisible] = useState(() => !document.hidden);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const loadSequenceRef = useRef(0);
+  const appliedSequenceRef = useRef(0);
+
+  // Offline Cache State: thời điểm tải của dữ liệu cache đang hiển thị (null = dữ liệu mới)
+  const [offlineSince, setOfflineSince] = useState<number | null>(null);
+
+  // Data Source States
+  const [sources, setSources] = useState<DataSource[]>(() => loadSources());
+  const [selectedSourceIds, setSelectedSourceIds] = useState<string[]>(() => loadSelectedSourceIds(sources));
+  const [isSourceManagerOpen, setIsSourceManagerOpen] = useState(false);
+  const [mappingSourceId, setMappingSourceId] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState<string>(getBusinessTimeZone());
   
+  // Change Tracking States (diff giữa các lần làm mới)
+  const [changeMarks, setChangeMarks] = useState<Record<string, ChangeMark>>({});
+  const [removedOrders, setRemovedOrders] = useState<RemovedMark[]>([]);
+  const [newOrderCount, setNewOrderCount] = useState(0);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(() => loadNotificationSettings());
+  const previousOrdersRef = useRef<Order[]>([]);
+  const previousLoadKeyRef = useRef('');
+  const notificationSettingsRef = useRef(notificationSettings);
+  notificationSettingsRef.current = notificationSettings;
+
+  // Import Validation State
+  const [excludeFlagged, setExcludeFlagged] = useState<boolean>(() => loadFromStorage('excludeFlaggedRows', false));
+
   // Filter States
-  const [startDate, setStartDate] = useState<string>('');
-  const [endDate, setEndDate] = useState<string>('');
-  const [activeFilter, setActiveFilter] = useState<string>('thisMonth');
+  // Khoảng ngày / độ chi tiết ban đầu lấy từ URL (nếu có) để mở lại đúng góc nhìn đã chia sẻ
+  const [initialView] = useState(() => readViewStateFromUrl());
+  const [startDate, setStartDate] = useState<string>(() => initialView.preset === 'custom' ? initialView.start || '' : '');
+  const [endDate, setEndDate] = useState<string>(() => initialView.preset === 'custom' ? initialView.end || '' : '');
+  const [activeFilter, setActiveFilter] = useState<string>(() => initialView.preset || 'thisMonth');
+  const [granularity, setGranularity] = useState<Granularity>(() => initialView.granularity || 'day');
+  const [showComparison, setShowComparison] = useState<boolean>(() => loadFromStorage('showRevenueComparison', false));
+  const [revenueTargets, setRevenueTargets] = useState<RevenueTargets>(() => loadRevenueTargets(todayKey().slice(0, 7)));
   
   // Modal State
-  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
-
-  // Helper to format YYYY-MM-DD
-  const fmt = (d: Date) => {
-      const yyyy = d.getFullYear();
-      const mm = String(d.getMonth() + 1).padStart(2, '0');
-      const dd = String(d.getDate()).padStart(2, '0');
-      return `${yyyy}-${mm}-${dd}`;
-  };
+  const [selectedCustomerKey, setSelectedCustomerKey] = useState<string | null>(null);
+
+  // Customer Identity States
+  const [customerDecisions, setCustomerDecisions] = useState<CustomerDecisions>(() => loadCustomerDecisions());
+
+  // Order Tracking States: trạng thái / thanh toán / vận đơn / ghi chú theo Order.id
+  const [orderTracking, setOrderTracking] = useState<Record<string, OrderTracking>>(() => loadOrderTracking());
+  const [statusFilter, setStatusFilter] = useState<OrderStatus[]>(() => loadStatusFilter());
+  const [isIdentityPanelOpen, setIsIdentityPanelOpen] = useState(false);
+
+  // Product Catalog States (catalogSample: nội dung đơn điền sẵn vào ô thử nhận diện; null = đóng)
+  const [products, setProducts] = useState<Product[]>(() => loadProducts());
+  const [catalogSample, setCatalogSample] = useState<string | null>(null);
+
+  // Printable Report States
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [shopName, setShopName] = useState<string>(() => loadFromStorage('reportShopName', ''));
+
+  // Customer Profile States
+  const [tableView, setTableView] = useState<'orders' | 'customers'>('orders');
+  const [profileKey, setProfileKey] = useState<string | null>(null);
 
   const applyDateFilter = (type: string) => {
     setActiveFilter(type);
-    const today = new Date();
-
-    if (type === 'today') {
-        const str = fmt(today);
-        setStartDate(str);
-        setEndDate(str);
-    } else if (type === 'yesterday') {
-        const yesterday = new Date(today);
-        yesterday.setDate(today.getDate() - 1);
-        const str = fmt(yesterday);
-        setStartDate(str);
-        setEndDate(str);
-    } else if (type === 'thisMonth') {
-         const firstDay = new Date(today.getFullYear(), today.getMonth(), 1);
-         setStartDate(fmt(firstDay));
-         setEndDate(fmt(today));
-    } else if (type === 'all') {
-        setStartDate('');
-        setEndDate('');
-    }
+    if (!isDatePreset(type)) return;
+    // Tính theo ngày hôm nay (YYYY-MM-DD) của múi giờ kinh doanh
+    const range = resolveDatePreset(type);
+    setStartDate(range.start);
+    setEndDate(range.end);
   };
 
   const handleManualDateChange = (start: string, end: string) => {
@@ -62,69 +146,330 @@ export default function App() {
       setActiveFilter('custom');
   };
 
+  const selectedSources = useMemo(
+    () => sources.filter(s => selectedSourceIds.includes(s.id)),
+    [sources, selectedSourceIds]
+  );
+
+  const handleSelectedSourcesChange = (ids: string[]) => {
+    setSelectedSourceIds(ids);
+    saveSelectedSourceIds(ids);
+  };
+
+  const handleSourcesChange = (next: DataSource[]) => {
+    setSources(next);
+    saveSources(next);
+    // Bỏ chọn các nguồn đã bị xóa, luôn giữ ít nhất một nguồn
+    const remaining = selectedSourceIds.filter(id => next.some(s => s.id === id));
+    handleSelectedSourcesChange(remaining.length > 0 ? remaining : [next[0].id]);
+  };
+
+  const handleTimeZoneChange = (value: string) => {
+    setBusinessTimeZone(value);
+    setTimeZone(value);
+    applyDateFilter(activeFilter);
+  };
+
+  const mappingSource = sources.find(s => s.id === mappingSourceId) || null;
+
+  const handleSaveMapping = (mapping: ColumnMapping) => {
+    if (!mappingSource) return;
+    handleSourcesChange(sources.map(s => s.id === mappingSource.id ? { ...s, columnMapping: mapping } : s));
+    setMappingSourceId(null);
+  };
+
+  const renderSourceDialogs = () => (
+    <>
+      {isSourceManagerOpen && !mappingSource && (
+          <DataSourceManager
+            sources={sources}
+            onChange={handleSourcesChange}
+            onEditMapping={source => setMappingSourceId(source.id)}
+            timeZone={timeZone}
+            onTimeZoneChange={handleTimeZoneChange}
+            onClose={() => setIsSourceManagerOpen(false)}
+          />
+      )}
+      {mappingSource && (
+          <ColumnMappingEditor source={mappingSource} onSave={handleSaveMapping} onClose={() => setMappingSourceId(null)} />
+      )}
+    </>
+  );
+
+  const handleNotificationSettingsChange = (settings: NotificationSettings) => {
+    setNotificationSettings(settings);
+    saveNotificationSettings(settings);
+  };
+
+  const resetChangeTracking = () => {
+    setChangeMarks({});
+    setRemovedOrders([]);
+    setNewOrderCount(0);
+  };
+
+  // So sánh với lần tải trước (cùng nguồn, cùng múi giờ) để đánh dấu đơn mới / sửa / xóa
+  const trackChanges = (data: Order[]) => {
+    const loadKey = `${selectedSources.map(s => s.id).join(',')}|${timeZone}`;
+    const previous = previousOrdersRef.current;
+    const isSameDataset = previousLoadKeyRef.current === loadKey;
+    previousOrdersRef.current = data;
+    previousLoadKeyRef.current = loadKey;
+
+    if (!isSameDataset) {
+      resetChangeTracking();
+      return;
+    }
+
+    const diff = diffOrders(previous, data);
+    const now = Date.now();
+    setChangeMarks(prev => {
+      const next = pruneChangeMarks(prev, now);
+      diff.added.forEach(o => { next[o.id] = { type: 'added', at: now }; });
+      diff.changed.forEach(o => { next[o.id] = { type: 'changed', at: now }; });
+      return next;
+    });
+    setRemovedOrders(prev => [
+      ...prev.filter(r => now - r.at < HIGHLIGHT_DURATION),
+      ...diff.removed.map(order => ({ order, at: now }))
+    ]);
+
+    if (diff.added.length > 0) {
+      setNewOrderCount(c => c + diff.added.length);
+      const settings = notificationSettingsRef.current;
+      if (settings.sound) playNewOrderChime();
+      if (settings.browser) showNewOrdersNotification(diff.added);
+    }
+  };
+
+  const recordRefreshResult = (error?: string) => {
+    const now = Date.now();
+    setRefreshStatus(prev => error
+      ? { ...prev, lastAttemptAt: now, lastFailureAt: now, lastError: error, failureCount: prev.failureCount + 1 }
+      : { ...prev, lastAttemptAt: now, lastSuccessAt: now, lastError: '', failureCount: 0 });
+  };
+
   const loadData = async (isAutoRefresh = false) => {
+    // Chỉ lần tải mới nhất được áp dụng (VD: đổi nguồn khi lần tải trước chưa xong)
+    const sequence = ++loadSequenceRef.current;
+
     // Only show loading spinner on full screen if it's not an auto-refresh
     if (!isAutoRefresh) {
         setLoadingState(LoadingState.LOADING);
     }
     
     setErrorMsg('');
-    setIsUsingMock(false);
     try {
-      const data = await fetchSalesData();
+      const data = await fetchMergedSalesData(selectedSources);
+      if (sequence !== loadSequenceRef.current) return;
       if (data.length === 0) {
-          setErrorMsg('Không tìm thấy dữ liệu nào trong Sheet (File có thể đang trống).');
-          setLoadingState(LoadingState.ERROR);
+          const message = 'Không tìm thấy dữ liệu nào trong Sheet (File có thể đang trống).';
+          setErrorMsg(message);
+          recordRefreshResult(message);
+          // Làm mới nền thất bại: giữ dữ liệu đang hiển thị, lỗi hiện ở thanh trạng thái
+          setLoadingState(isAutoRefresh && orders.length > 0 ? LoadingState.SUCCESS : LoadingState.ERROR);
       } else {
+          appliedSequenceRef.current = sequence;
+          trackChanges(data);
           setOrders(data);
-          setLastUpdated(new Date());
+          setOfflineSince(null);
+          setIsUsingMock(false);
+          recordRefreshResult();
           setLoadingState(LoadingState.SUCCESS);
       }
     } catch (error: any) {
       console.error(error);
-      setErrorMsg(error.message || 'Lỗi không xác định khi tải dữ liệu.');
-      setLoadingState(LoadingState.ERROR);
+      if (sequence !== loadSequenceRef.current) return;
+      const message = error.message || 'Lỗi không xác định khi tải dữ liệu.';
+      setErrorMsg(message);
+      recordRefreshResult(message);
+      setLoadingState(isAutoRefresh && orders.length > 0 ? LoadingState.SUCCESS : LoadingState.ERROR);
     }
   };
 
+  const handleRefreshIntervalChange = (id: RefreshIntervalId) => {
+    setRefreshIntervalId(id);
+    saveRefreshInterval(id);
+  };
+
   const loadMockData = () => {
-    setOrders(getMockData());
+    const data = getMockData();
+    previousOrdersRef.current = data;
+    previousLoadKeyRef.current = 'mock';
+    resetChangeTracking();
+    setOrders(data);
+    setOfflineSince(null);
     setIsUsingMock(true);
     setLoadingState(LoadingState.SUCCESS);
     setErrorMsg('');
     applyDateFilter('thisMonth');
   };
 
-  // Initial Load and Auto-Refresh Interval
+  // Set default filter immediately (khoảng tùy chỉnh từ URL đã được đặt sẵn)
   useEffect(() => {
-    // 1. Set default filter immediately
-    applyDateFilter('thisMonth');
-    
-    // 2. Initial Data Load
+    if (activeFilter !== 'custom') applyDateFilter(activeFilter);
+  }, []);
+
+  // Đồng bộ khoảng ngày / độ chi tiết lên URL
+  useEffect(() => {
+    writeViewStateToUrl({
+      preset: isDatePreset(activeFilter) ? activeFilter : 'custom',
+      start: startDate,
+      end: endDate,
+      granularity
+    });
+  }, [activeFilter, startDate, endDate, granularity]);
+
+  // Initial Load (re-run whenever the selected sources or the timezone change,
+  // since order timestamps are parsed in the business timezone)
+  // Stale-while-revalidate: hiển thị ngay dữ liệu cache trong IndexedDB, sau đó thay bằng dữ liệu mới tải
+  useEffect(() => {
+    let cancelled = false;
     loadData();
+    const sequence = loadSequenceRef.current;
 
-    // 3. Setup 5-minute auto-refresh interval (300,000 ms)
-    const intervalId = setInterval(() => {
+    loadCachedSalesData(selectedSources).then(cached => {
+      // Bỏ qua nếu dữ liệu mới đã về hoặc đã có lần tải khác bắt đầu
+      if (cancelled || !cached || loadSequenceRef.current !== sequence || appliedSequenceRef.current === sequence) return;
+      trackChanges(cached.orders);
+      setOrders(cached.orders);
+      setOfflineSince(cached.fetchedAt);
+      setIsUsingMock(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [selectedSources, timeZone]);
+
+  // Track tab visibility and network status to pause auto-refresh
+  useEffect(() => {
+    const handleVisibility = () => setIsPageVisible(!document.hidden);
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const refreshIntervalMs = getIntervalMs(refreshIntervalId);
+  const refreshPauseReason: RefreshPauseReason =
+    refreshIntervalMs === null ? 'paused' : !isOnline ? 'offline' : !isPageVisible ? 'hidden' : null;
+
+  // Auto-Refresh: lên lịch lần kế tiếp sau mỗi lần tải (thành công: theo chu kỳ; lỗi: lùi dần theo cấp số nhân).
+  // Khi tab hiện lại / có mạng trở lại mà đã quá hạn thì làm mới ngay.
+  useEffect(() => {
+    if (refreshPauseReason || refreshIntervalMs === null || refreshStatus.lastAttemptAt === null) {
+      setNextRefreshAt(null);
+      return;
+    }
+
+    const dueAt = refreshStatus.lastAttemptAt + computeRefreshDelay(refreshIntervalMs, refreshStatus.failureCount);
+    setNextRefreshAt(dueAt);
+    const timeoutId = setTimeout(() => {
         console.log("Auto-refreshing data...");
         loadData(true); // true = silent refresh (keep UI interactive)
-    }, 5 * 60 * 1000);
+    }, Math.max(0, dueAt - Date.now()));
+
+    // Cleanup on unmount / reschedule
+    return () => clearTimeout(timeoutId);
+  }, [refreshStatus.lastAttemptAt, refreshStatus.failureCount, refreshIntervalMs, refreshPauseReason, selectedSources, timeZone]);
 
-    // Cleanup on unmount
+  // Bỏ highlight đã hết hạn
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      const now = Date.now();
+      setChangeMarks(prev => Object.keys(prev).length > 0 ? pruneChangeMarks(prev, now) : prev);
+      setRemovedOrders(prev => prev.length > 0 ? prev.filter(r => now - r.at < HIGHLIGHT_DURATION) : prev);
+    }, 30 * 1000);
     return () => clearInterval(intervalId);
   }, []);
 
+  const isMultiSource = selectedSources.length > 1;
+
+  const handleExcludeFlaggedChange = (value: boolean) => {
+    setExcludeFlagged(value);
+    saveToStorage('excludeFlaggedRows', value);
+  };
+
+  const handleOrderTrackingChange = (orderId: string, patch: Partial<Omit<OrderTracking, 'updatedAt'>>) => {
+    const next = updateOrderTracking(orderTracking, orderId, patch);
+    setOrderTracking(next);
+    saveOrderTracking(next);
+  };
+
+  const handleStatusFilterChange = (statuses: OrderStatus[]) => {
+    setStatusFilter(statuses);
+    saveStatusFilter(statuses);
+  };
+
   // --- Filtering Logic ---
+  // Bỏ các dòng có cảnh báo khi nhập nếu người dùng chọn loại khỏi thống kê
+  const usableOrders = useMemo(
+    () => excludeFlagged ? orders.filter(o => o.warnings.length === 0) : orders,
+    [orders, excludeFlagged]
+  );
+
+  // Số đơn theo trạng thái trong khoảng ngày đang xem (trước khi lọc trạng thái)
+  const statusCounts = useMemo(() => {
+    const inRange = startDate || endDate ? filterOrdersByRange(usableOrders, startDate, endDate) : usableOrders;
+    const counts: Partial<Record<OrderStatus, number>> = {};
+    inRange.forEach(o => {
+      const status = getOrderTracking(orderTracking, o.id).status;
+      counts[status] = (counts[status] || 0) + 1;
+    });
+    return counts;
+  }, [usableOrders, orderTracking, startDate, endDate, timeZone]);
+
+  const validOrders = useMemo(
+    () => filterOrdersByStatus(usableOrders, orderTracking, statusFilter),
+    [usableOrders, orderTracking, statusFilter]
+  );
+
   const filteredOrders = useMemo(() => {
-    if (!startDate && !endDate) return orders;
-    
-    const start = startDate ? new Date(startDate).setHours(0,0,0,0) : 0;
-    const end = endDate ? new Date(endDate).setHours(23,59,59,999) : Number.MAX_VALUE;
+    if (!startDate && !endDate) return validOrders;
+    // So sánh theo ngày (YYYY-MM-DD) trong múi giờ kinh doanh
+    return filterOrdersByRange(validOrders, startDate, endDate);
+  }, [validOrders, startDate, endDate, timeZone]);
+
+  // --- Customer Identity ---
+  const handleCustomerDecisionsChange = (next: CustomerDecisions) => {
+    setCustomerDecisions(next);
+    saveCustomerDecisions(next);
+  };
 
-    return orders.filter(order => {
-      const orderDate = new Date(order.date).getTime();
-      return orderDate >= start && orderDate <= end;
+  // Khóa khách cho mọi đơn đã tải (không chỉ khoảng ngày đang lọc) để định danh nhất quán
+  const customerKeyByOrderId = useMemo(
+    () => resolveCustomerKeys(orders, customerDecisions),
+    [orders, customerDecisions]
+  );
+
+  // Tên hiển thị (theo đơn mới nhất) của từng khóa khách, kể cả khóa đã bị gộp vào khách khác
+  const customerNames = useMemo(() => {
+    const baseKeys = resolveCustomerKeys(orders, { ...customerDecisions, merges: {} });
+    const names: Record<string, string> = {};
+    const latest: Record<string, number> = {};
+    orders.forEach(order => {
+      const time = new Date(order.date).getTime();
+      [baseKeys.get(order.id)!, customerKeyByOrderId.get(order.id)!].forEach(key => {
+        if (latest[key] === undefined || time >= latest[key]) {
+          latest[key] = time;
+          names[key] = order.customerName;
+        }
+      });
     });
-  }, [orders, startDate, endDate]);
+    return names;
+  }, [orders, customerDecisions, customerKeyByOrderId]);
+
+  const duplicateSuggestions = useMemo(() => {
+    const keys = new Set<string>(customerKeyByOrderId.values());
+    return findDuplicateSuggestions(
+      Array.from(keys).map(key => ({ key, name: customerNames[key] || '' })),
+      customerDecisions
+    );
+  }, [customerKeyByOrderId, customerNames, customerDecisions]);
 
   // --- Grouping Logic (Group by Customer) ---
   const groupedOrders = useMemo(() => {
@@ -133,11 +478,12 @@ export default function App() {
     const sortedRaw = [...filteredOrders].sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
     sortedRaw.forEach(order => {
-      const key = order.customerName.trim().toLowerCase();
+      const key = customerKeyByOrderId.get(order.id) || order.customerName.trim().toLowerCase();
       
       if (!groups[key]) {
         groups[key] = { 
             ...order, 
+            customerKey: key,
             subOrders: [order],
             details: order.details ? `- ${order.details}` : ''
         };
@@ -165,28 +511,136 @@ export default function App() {
     });
 
     return Object.values(groups).sort((a, b) => b.amount - a.amount);
-  }, [filteredOrders]);
+  }, [filteredOrders, customerKeyByOrderId]);
+
+  const selectedOrder = useMemo(
+    () => groupedOrders.find(g => g.customerKey === selectedCustomerKey) || null,
+    [groupedOrders, selectedCustomerKey]
+  );
+
+  // --- Customer Profiles (trọn đời, không theo bộ lọc ngày) ---
+  const customerProfiles = useMemo(
+    () => buildCustomerProfiles(validOrders, customerKeyByOrderId),
+    [validOrders, customerKeyByOrderId, timeZone]
+  );
+
+  const selectedProfile = useMemo(
+    () => customerProfiles.find(p => p.key === profileKey) || null,
+    [customerProfiles, profileKey]
+  );
 
 
   // --- Aggregation Logic (Daily - Raw Data) ---
-  const dailyStats = useMemo(() => {
-    const statsMap = new Map<string, DailyStat>();
-
-    filteredOrders.forEach(order => {
-      const dateKey = order.date.split('T')[0];
-      const current = statsMap.get(dateKey) || {
-        date: dateKey,
-        orderCount: 0,
-        revenue: 0
-      };
-
-      current.orderCount += order.quantity; 
-      current.revenue += order.amount;
-      statsMap.set(dateKey, current);
-    });
+  const dailyStats = useMemo(() => buildDailyStats(filteredOrders), [filteredOrders, timeZone]);
+
+  // --- Period Comparison (kỳ trước tương ứng với bộ lọc ngày) ---
+  const comparisonRange = useMemo(
+    () => getComparisonRange(activeFilter, startDate, endDate),
+    [activeFilter, startDate, endDate]
+  );
+
+  const comparisonStats = useMemo(
+    () => comparisonRange ? buildDailyStats(filterOrdersByRange(validOrders, comparisonRange.start, comparisonRange.end)) : [],
+    [validOrders, comparisonRange, timeZone]
+  );
+
+  // Ngày mua đầu tiên (toàn bộ lịch sử) của từng khách, để tách khách mới / khách quay lại
+  const firstOrderDayByKey = useMemo(
+    () => new Map(customerProfiles.map(p => [p.key, toDateKey(p.firstOrderDate)])),
+    [customerProfiles]
+  );
+
+  const chartData = useMemo(() => {
+    const stats = showComparison && comparisonRange
+      ? alignComparison(dailyStats, comparisonStats, { start: startDate, end: endDate }, comparisonRange)
+      : dailyStats;
+    return rebucketStats(addCustomerMix(stats, filteredOrders, customerKeyByOrderId, firstOrderDayByKey), granularity);
+  }, [showComparison, comparisonRange, dailyStats, comparisonStats, startDate, endDate, granularity,
+      filteredOrders, customerKeyByOrderId, firstOrderDayByKey]);
+
+  // Lũy kế doanh thu của tháng chứa ngày cuối khoảng lọc (hoặc tháng hiện tại khi xem toàn bộ)
+  const cumulativeMonth = (endDate || todayKey()).slice(0, 7);
+  // Mục tiêu của một tháng cho các nguồn đang xem (tổng, hoặc cộng mục tiêu từng nguồn)
+  const getTargetFor = (month: string) => resolveTarget(getMonthTarget(revenueTargets, month), selectedSourceIds, sources.map(s => s.id));
+  const cumulativeTarget = getTargetFor(cumulativeMonth);
+  const cumulativeData = useMemo(() => {
+    const monthOrders = filterOrdersByRange(validOrders, `${cumulativeMonth}-01`, `${cumulativeMonth}-31`);
+    return buildMonthCumulative(buildDailyStats(monthOrders), cumulativeMonth, cumulativeTarget, todayKey());
+  }, [validOrders, cumulativeMonth, cumulativeTarget, timeZone]);
+
+  // --- Forecast: học từ toàn bộ lịch sử đơn hợp lệ tới hết hôm qua (hôm nay chưa trọn ngày) ---
+  const allDailyStats = useMemo(() => buildDailyStats(validOrders), [validOrders, timeZone]);
 
-    return Array.from(statsMap.values()).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [filteredOrders]);
+  const forecastPoints = useMemo(() => {
+    const model = buildForecastModel(allDailyStats, addDays(todayKey(), -1));
+    return model ? forecastDays(model, 30) : null;
+  }, [allDailyStats]);
+
+  const monthForecast = useMemo(() => {
+    const today = todayKey();
+    const todayRevenue = allDailyStats.find(s => s.date === today)?.revenue || 0;
+    return forecastMonthTotal(allDailyStats, today.slice(0, 7), addDays(today, -1), todayRevenue);
+  }, [allDailyStats]);
+
+  const forecastBacktest = useMemo(() => backtestForecast(allDailyStats, todayKey()), [allDailyStats]);
+
+  // Đường dự báo nối tiếp biểu đồ nên chỉ có khi khoảng đang xem kéo tới hôm qua / hôm nay
+  const chartForecast = !endDate || endDate >= addDays(todayKey(), -1) ? forecastPoints : null;
+
+  // Doanh thu cả tháng trước, để so với mức dự kiến tháng này
+  const previousMonthRevenue = useMemo(() => {
+    const previousMonth = addMonths(`${todayKey().slice(0, 7)}-01`, -1).slice(0, 7);
+    return allDailyStats.filter(s => s.date.startsWith(previousMonth)).reduce((sum, s) => sum + s.revenue, 0);
+  }, [allDailyStats]);
+
+  // --- Revenue Target: tiến độ tháng hiện tại ---
+  const currentMonth = todayKey().slice(0, 7);
+  const currentMonthTarget = getTargetFor(currentMonth);
+  const targetProgress = useMemo(() => {
+    if (currentMonthTarget <= 0) return null;
+    const actual = allDailyStats.filter(s => s.date.startsWith(currentMonth)).reduce((sum, s) => sum + s.revenue, 0);
+    return buildTargetProgress(currentMonth, currentMonthTarget, actual, todayKey());
+  }, [allDailyStats, currentMonth, currentMonthTarget]);
+
+  // --- Product Analytics ---
+  const productMatches = useMemo(() => matchOrderProducts(validOrders, products), [validOrders, products]);
+
+  // "Hỏi dữ liệu" chạy trên toàn bộ đơn hợp lệ; khoảng ngày đang xem chỉ là mặc định khi câu hỏi không nói thời gian
+  const queryContext = useMemo<QueryContext>(() => ({
+    orders: validOrders,
+    today: todayKey(),
+    currentRange: { start: startDate, end: endDate },
+    customerKeyByOrderId,
+    products,
+    productMatches
+  }), [validOrders, startDate, endDate, customerKeyByOrderId, products, productMatches, timeZone]);
+
+  const handleProductsChange = (next: Product[]) => {
+    setProducts(next);
+    saveProducts(next);
+  };
+
+  const handleRevenueTargetsChange = (next: RevenueTargets) => {
+    setRevenueTargets(next);
+    saveRevenueTargets(next);
+  };
+
+  const handleShopNameChange = (name: string) => {
+    setShopName(name);
+    saveToStorage('reportShopName', name);
+  };
+
+  const handleShowComparisonChange = (value: boolean) => {
+    setShowComparison(value);
+    saveToStorage('showRevenueComparison', value);
+  };
+
+  // --- Change Highlighting ---
+  // Đơn đã bị xóa khỏi Sheet ở lần làm mới gần đây, trong khoảng ngày đang lọc
+  const visibleRemovedOrders = useMemo(() => removedOrders.filter(({ order }) => {
+    const dateKey = toDateKey(order.date);
+    return (!startDate || dateKey >= startDate) && (!endDate || dateKey <= endDate);
+  }), [removedOrders, startDate, endDate, timeZone]);
 
   // --- Aggregation Logic (Customers - Raw Data) ---
   const topCustomers = useMemo(() => {
@@ -202,6 +656,45 @@ export default function App() {
   const totalRevenue = useMemo(() => dailyStats.reduce((sum, day) => sum + day.revenue, 0), [dailyStats]);
   const totalOrders = useMemo(() => dailyStats.reduce((sum, day) => sum + day.orderCount, 0), [dailyStats]);
   const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
+  const revenueSplit = useMemo(() => splitRevenueByStatus(filteredOrders, orderTracking), [filteredOrders, orderTracking]);
+
+  const deltas = useMemo(() => {
+    if (!comparisonRange) return null;
+    const previous = summarizeStats(comparisonStats);
+    return {
+      revenue: computeDelta(totalRevenue, previous.revenue),
+      quantity: computeDelta(totalOrders, previous.quantity),
+      average: computeDelta(averageOrderValue, previous.average)
+    };
+  }, [comparisonRange, comparisonStats, totalRevenue, totalOrders, averageOrderValue]);
+
+  // Chênh lệch tuyệt đối và phần trăm, VD: "+1.200.000 ₫ (+12,5%)"
+  const formatDelta = (delta: Delta, format: (value: number) => string) => {
+    const sign = delta.absolute > 0 ? '+' : delta.absolute < 0 ? '-' : '';
+    const percent = delta.percent === null
+      ? ''
+      : ` (${sign}${Math.abs(delta.percent).toLocaleString('vi-VN', { maximumFractionDigits: 1 })}%)`;
+    return `${sign}${format(Math.abs(delta.absolute))}${percent}`;
+  };
+
+  const formatVnd = (value: number) => value.toLocaleString('vi-VN', { style: 'currency', currency: 'VND', maximumFractionDigits: 0 });
+
+  const monthForecastDelta = monthForecast && previousMonthRevenue > 0 ? computeDelta(monthForecast.expected, previousMonthRevenue) : null;
+
+  const trendProps = (delta: Delta | undefined, format: (value: number) => string) => delta && comparisonRange
+    ? { trend: delta.trend, trendValue: formatDelta(delta, format), trendLabel: comparisonRange.label }
+    : {};
+
+  // KPI cho báo cáo in: cùng số liệu với các StatsCard
+  const reportKpis = () => {
+    const note = (delta: Delta | undefined, format: (value: number) => string) =>
+      delta && comparisonRange ? `${formatDelta(delta, format)} ${comparisonRange.label}` : undefined;
+    return [
+      { label: 'Tổng Doanh Thu', value: formatVnd(totalRevenue), note: note(deltas?.revenue, formatVnd) },
+      { label: 'Tổng Số Lượng', value: totalOrders.toLocaleString('vi-VN'), note: note(deltas?.quantity, value => value.toLocaleString('vi-VN')) },
+      { label: 'Giá Trị Trung Bình', value: formatVnd(averageOrderValue), note: note(deltas?.average, formatVnd) },
+    ];
+  };
 
   // --- Render Helpers ---
 
@@ -225,9 +718,11 @@ export default function App() {
           <p className="text-gray-600 mb-4">{errorMsg}</p>
           <div className="flex flex-col sm:flex-row gap-3 justify-center">
             <button onClick={() => loadData()} className="px-6 py-2.5 bg-blue-600 text-white rounded-xl hover:bg-blue-700 font-medium">Thử lại</button>
+            <button onClick={() => setIsSourceManagerOpen(true)} className="px-6 py-2.5 bg-white text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-50 font-medium">Sửa nguồn dữ liệu</button>
             <button onClick={loadMockData} className="px-6 py-2.5 bg-white text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-50 font-medium">Xem demo</button>
           </div>
         </div>
+        {renderSourceDialogs()}
       </div>
     );
   }
@@ -243,23 +738,34 @@ export default function App() {
               <LayoutDashboard className="w-7 h-7 text-blue-600" />
               Báo Cáo Doanh Thu
             </h1>
-            <div className="flex items-center gap-2 mt-1">
-              <p className="text-sm text-gray-500">
-                Cập nhật lần cuối: {lastUpdated.toLocaleTimeString('vi-VN')}
-                {isUsingMock && <span className="ml-2 text-amber-600 bg-amber-50 px-2 py-0.5 rounded text-xs font-medium border border-amber-100">Dữ liệu mẫu</span>}
-              </p>
+            <div className="flex flex-wrap items-center gap-3 mt-2">
+              <SourceSwitcher
+                sources={sources}
+                selectedIds={selectedSourceIds}
+                onChange={handleSelectedSourcesChange}
+                onManage={() => setIsSourceManagerOpen(true)}
+              />
+              <RefreshStatusIndicator
+                intervalId={refreshIntervalId}
+                onIntervalChange={handleRefreshIntervalChange}
+                status={refreshStatus}
+                nextRefreshAt={nextRefreshAt}
+                pauseReason={refreshPauseReason}
+              />
+              {isUsingMock && <span className="text-amber-600 bg-amber-50 px-2 py-0.5 rounded text-xs font-medium border border-amber-100">Dữ liệu mẫu</span>}
+              <NewOrdersBadge
+                count={newOrderCount}
+                onDismiss={() => setNewOrderCount(0)}
+                settings={notificationSettings}
+                onSettingsChange={handleNotificationSettingsChange}
+              />
             </div>
           </div>
 
           <div className="flex flex-col items-end gap-3 w-full md:w-auto">
              {/* Quick Filters */}
              <div className="flex gap-1.5 bg-gray-100/80 p-1 rounded-lg w-full md:w-auto overflow-x-auto">
-                {[
-                  { id: 'today', label: 'Hôm nay' },
-                  { id: 'yesterday', label: 'Hôm qua' },
-                  { id: 'thisMonth', label: 'Tháng này' },
-                  { id: 'all', label: 'Tất cả' },
-                ].map(f => (
+                {DATE_PRESETS.filter(f => f.quick).map(f => (
                   <button
                     key={f.id}
                     onClick={() => applyDateFilter(f.id)}
@@ -272,6 +778,19 @@ export default function App() {
                     {f.label}
                   </button>
                 ))}
+                <select
+                  value={DATE_PRESETS.some(f => f.id === activeFilter && !f.quick) ? activeFilter : ''}
+                  onChange={e => e.target.value && applyDateFilter(e.target.value)}
+                  className={`px-2 py-1 text-xs font-semibold rounded-md border-none focus:ring-0 cursor-pointer ${
+                    DATE_PRESETS.some(f => f.id === activeFilter && !f.quick)
+                    ? 'bg-white text-blue-600 shadow-sm ring-1 ring-black/5'
+                    : 'bg-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                  title="Khoảng thời gian khác"
+                >
+                  <option value="">Khác...</option>
+                  {DATE_PRESETS.filter(f => !f.quick).map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                </select>
              </div>
 
              <div className="flex flex-wrap items-center gap-3 w-full md:w-auto justify-end">
@@ -291,6 +810,16 @@ export default function App() {
                         className="bg-transparent border-none text-sm focus:ring-0 p-0 text-gray-700 w-28 md:w-32"
                     />
                 </div>
+                <button
+                  onClick={() => setIsReportOpen(true)}
+                  className="p-2.5 hover:bg-gray-100 rounded-lg border border-gray-200 text-gray-600 transition-colors flex-shrink-0 relative group"
+                  title="Báo cáo in / PDF"
+                >
+                    <Printer className="w-5 h-5" />
+                    <span className="absolute -top-8 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs py-1 px-2 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none">
+                      Báo cáo
+                    </span>
+                </button>
                 <button 
                   onClick={() => loadData(false)} 
                   className="p-2.5 hover:bg-gray-100 rounded-lg border border-gray-200 text-gray-600 transition-colors flex-shrink-0 relative group" 
@@ -305,13 +834,49 @@ export default function App() {
           </div>
         </div>
 
+        {/* Offline Banner */}
+        {offlineSince !== null && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-2xl bg-amber-50 border border-amber-200">
+            <div className="flex items-center gap-3">
+              <WifiOff className="w-5 h-5 text-amber-600 flex-shrink-0" />
+              <div>
+                <p className="text-sm font-bold text-gray-900">Đang xem dữ liệu offline từ {formatDateTime(offlineSince)}</p>
+                <p className="text-xs text-gray-600">
+                  {loadingState === LoadingState.LOADING ? 'Đang tải dữ liệu mới...' : errorMsg || 'Chưa tải được dữ liệu mới từ nguồn.'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => loadData(false)}
+              className="px-4 py-2 text-sm font-medium text-amber-700 bg-white border border-amber-200 rounded-lg hover:bg-amber-100 flex-shrink-0"
+            >
+              Thử lại
+            </button>
+          </div>
+        )}
+
+        {/* Import Issues */}
+        <ImportIssuesPanel
+          orders={orders}
+          excludeFlagged={excludeFlagged}
+          onExcludeFlaggedChange={handleExcludeFlaggedChange}
+          showSource={isMultiSource}
+        />
+
+        {/* Order Status Filter */}
+        <OrderStatusFilter selected={statusFilter} counts={statusCounts} onChange={handleStatusFilterChange} />
+
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className={`grid grid-cols-1 md:grid-cols-2 ${monthForecast ? 'lg:grid-cols-4' : 'lg:grid-cols-3'} gap-6`}>
           <StatsCard 
             title="Tổng Doanh Thu" 
             value={totalRevenue.toLocaleString('vi-VN', { style: 'currency', currency: 'VND' })} 
+            subValue={revenueSplit.lostCount > 0
+              ? `Thực nhận ${formatVnd(revenueSplit.confirmed)} · Hoàn/hủy ${formatVnd(revenueSplit.lost)} (${revenueSplit.lostCount} đơn)`
+              : undefined}
             icon={DollarSign}
             color="blue"
+            {...trendProps(deltas?.revenue, formatVnd)}
           />
           <StatsCard 
             title="Tổng Số Lượng" 
@@ -319,6 +884,7 @@ export default function App() {
             subValue="Sản phẩm/Đơn hàng"
             icon={ShoppingBag}
             color="green"
+            {...trendProps(deltas?.quantity, value => value.toLocaleString('vi-VN'))}
           />
           <StatsCard 
             title="Giá Trị Trung Bình" 
@@ -326,21 +892,60 @@ export default function App() {
             subValue="Doanh thu / Số đơn"
             icon={TrendingUp}
             color="purple"
+            {...trendProps(deltas?.average, formatVnd)}
           />
+          {monthForecast && (
+            <StatsCard
+              title={`Dự kiến cuối tháng ${Number(monthForecast.month.slice(5))}`}
+              value={formatVnd(monthForecast.expected)}
+              subValue={`Khoảng ${formatVnd(monthForecast.low)} - ${formatVnd(monthForecast.high)} (${FORECAST_CONFIDENCE}%) · Đã bán ${formatVnd(monthForecast.actualToDate)}`}
+              icon={CalendarClock}
+              color="orange"
+              trend={monthForecastDelta?.trend}
+              trendValue={monthForecastDelta ? formatDelta(monthForecastDelta, formatVnd) : undefined}
+              trendLabel="so với tháng trước"
+            />
+          )}
         </div>
 
+        {/* Revenue Target */}
+        <TargetProgress
+          month={currentMonth}
+          progress={targetProgress}
+          forecastExpected={monthForecast?.expected ?? null}
+          targets={revenueTargets}
+          sources={sources}
+          onTargetsChange={handleRevenueTargetsChange}
+        />
+
         {/* Main Content Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             
-            {/* Left Column: Charts (AI Analysis removed) */}
+            {/* Left Column: Charts & AI Analysis */}
             <div className="lg:col-span-2 space-y-6">
-                <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
-                    <h3 className="text-lg font-bold text-gray-900 mb-6 flex items-center gap-2">
-                    <DollarSign className="w-5 h-5 text-blue-500" />
-                    Biểu Đồ Doanh Thu Theo Ngày
-                    </h3>
-                    <RevenueChart data={dailyStats} />
-                </div>
+                <ChartPanel
+                    data={chartData}
+                    granularity={granularity}
+                    onGranularityChange={setGranularity}
+                    comparisonLabel={comparisonRange
+                      ? `So sánh kỳ trước (${formatDateKey(comparisonRange.start, false)} - ${formatDateKey(comparisonRange.end, false)})`
+                      : null}
+                    showComparison={showComparison}
+                    onShowComparisonChange={handleShowComparisonChange}
+                    cumulative={cumulativeData}
+                    cumulativeMonth={cumulativeMonth}
+                    monthlyTarget={cumulativeTarget}
+                    forecast={chartForecast}
+                    backtest={forecastBacktest}
+                />
+                <AnalysisPanel
+                    dailyStats={dailyStats}
+                    startDate={startDate}
+                    endDate={endDate}
+                    provider={apiAnalysisProvider}
+                />
+                <DataChat context={queryContext} provider={apiQuestionProvider} />
+                <OrderHeatmap orders={filteredOrders} />
             </div>
 
             {/* Right Column: Top Customers (From Grouped Data) */}
@@ -374,92 +979,100 @@ export default function App() {
             </div>
         </div>
 
+        {/* Product Analytics */}
+        <ProductAnalytics
+          orders={filteredOrders}
+          products={products}
+          matchesByOrderId={productMatches}
+          granularity={granularity}
+          onOpenCatalog={sample => setCatalogSample(sample || '')}
+        />
+
         {/* Detailed Table (Grouped) */}
         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
           <div className="p-6 border-b border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
             <div>
-              <h3 className="text-lg font-bold text-gray-900">Danh Sách Đơn Hàng</h3>
-              <p className="text-sm text-gray-500 mt-1">Đã gộp đơn theo khách hàng. Sắp xếp theo doanh thu.</p>
+              <div className="flex bg-gray-100 p-1 rounded-lg w-fit">
+                  {([['orders', 'Danh Sách Đơn Hàng'], ['customers', 'Khách Hàng']] as const).map(([view, label]) => (
+                      <button
+                          key={view}
+                          onClick={() => setTableView(view)}
+                          className={`px-3 py-1.5 text-sm font-bold rounded-md transition-all ${tableView === view ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+                      >
+                          {label}
+                      </button>
+                  ))}
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                  {tableView === 'orders'
+                    ? 'Gộp theo khách hoặc xem từng đơn. Bấm tiêu đề cột để sắp xếp.'
+                    : 'Toàn bộ lịch sử mua (không theo bộ lọc ngày), phân khúc theo RFM.'}
+              </p>
             </div>
-            {activeFilter !== 'all' && (
-                <div className="text-sm text-blue-600 bg-blue-50 px-3 py-1 rounded-full font-medium">
-                    Đang lọc: {activeFilter === 'today' ? 'Hôm nay' : activeFilter === 'yesterday' ? 'Hôm qua' : activeFilter === 'thisMonth' ? 'Tháng này' : 'Tùy chỉnh'}
-                </div>
-            )}
-          </div>
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm text-left">
-              <thead className="text-xs text-gray-500 uppercase bg-gray-50/50">
-                <tr>
-                  <th className="px-6 py-4 font-semibold whitespace-nowrap">Đơn Mới Nhất</th>
-                  <th className="px-6 py-4 font-semibold whitespace-nowrap">Tên Khách</th>
-                  <th className="px-6 py-4 font-semibold text-center whitespace-nowrap">Tổng SL</th>
-                  <th className="px-6 py-4 font-semibold whitespace-nowrap">Chi Tiết (Gộp)</th>
-                  <th className="px-6 py-4 font-semibold text-right whitespace-nowrap">Tổng Tiền</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-100">
-                {groupedOrders.length > 0 ? (
-                    groupedOrders.slice(0, 50).map((order) => (
-                    <tr 
-                        key={order.id} 
-                        onClick={() => setSelectedOrder(order)}
-                        className="hover:bg-blue-50/50 transition-colors cursor-pointer group"
-                    >
-                        <td className="px-6 py-4 font-medium text-gray-500 whitespace-nowrap">
-                            {new Date(order.date).toLocaleDateString('vi-VN')}
-                            <br/>
-                            <span className="text-xs text-gray-400">
-                                <Clock className="w-3 h-3 inline mr-1"/>
-                                {new Date(order.date).toLocaleTimeString('vi-VN', {hour: '2-digit', minute:'2-digit'})}
-                            </span>
-                        </td>
-                        <td className="px-6 py-4">
-                            <span className="font-bold text-gray-900 group-hover:text-blue-600 transition-colors">{order.customerName}</span>
-                            {order.subOrders && order.subOrders.length > 1 && (
-                                <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
-                                    {order.subOrders.length} đơn
-                                </span>
-                            )}
-                        </td>
-                        <td className="px-6 py-4 text-center">
-                             <span className="inline-block px-2.5 py-1 bg-gray-100 rounded-full text-xs font-semibold text-gray-700">{order.quantity}</span>
-                        </td>
-                        <td className="px-6 py-4 max-w-xs">
-                            <p className="text-gray-600 truncate">{order.details.replace(/\n/g, ', ')}</p>
-                            {order.facebookLink && <Facebook className="w-3 h-3 text-blue-600 mt-1 inline-block" />}
-                        </td>
-                        <td className="px-6 py-4 text-right font-bold text-blue-600 whitespace-nowrap text-base">
-                            {order.amount.toLocaleString('vi-VN', { style: 'currency', currency: 'VND' })}
-                        </td>
-                    </tr>
-                    ))
-                ) : (
-                    <tr>
-                    <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
-                      Không tìm thấy đơn hàng nào trong khoảng thời gian này.
-                    </td>
-                  </tr>
+            <div className="flex flex-wrap items-center gap-2">
+                <ExportMenu
+                    orders={filteredOrders}
+                    groupedOrders={groupedOrders}
+                    dailyStats={dailyStats}
+                    orderTracking={orderTracking}
+                    startDate={startDate}
+                    endDate={endDate}
+                />
+                <button
+                    onClick={() => setIsIdentityPanelOpen(true)}
+                    className="flex items-center gap-1.5 text-sm text-gray-600 bg-gray-50 hover:bg-gray-100 border border-gray-200 px-3 py-1 rounded-full font-medium"
+                >
+                    <Users className="w-4 h-4" />
+                    Khách trùng
+                    {duplicateSuggestions.length > 0 && (
+                        <span className="px-1.5 rounded-full bg-orange-100 text-orange-700 text-xs">{duplicateSuggestions.length}</span>
+                    )}
+                </button>
+                {tableView === 'orders' && activeFilter !== 'all' && (
+                    <div className="text-sm text-blue-600 bg-blue-50 px-3 py-1 rounded-full font-medium">
+                        Đang lọc: {getDateFilterLabel(activeFilter)}
+                    </div>
                 )}
-              </tbody>
-            </table>
+            </div>
           </div>
+          {tableView === 'customers' ? (
+            <CustomerList profiles={customerProfiles} onSelect={p => setProfileKey(p.key)} />
+          ) : (
+            <OrderTable
+              groupedOrders={groupedOrders}
+              rawOrders={filteredOrders}
+              removedOrders={visibleRemovedOrders}
+              changeMarks={changeMarks}
+              orderTracking={orderTracking}
+              customerKeyByOrderId={customerKeyByOrderId}
+              showSource={isMultiSource}
+              onSelectCustomer={setSelectedCustomerKey}
+            />
+          )}
         </div>
 
       </div>
 
       {/* Order Details Modal */}
       {selectedOrder && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={() => setSelectedOrder(null)}>
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={() => setSelectedCustomerKey(null)}>
               <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
                   
                   {/* Modal Header */}
                   <div className="p-6 border-b border-gray-100 flex justify-between items-start bg-gray-50/50 flex-shrink-0">
                       <div>
                           <h3 className="text-xl font-bold text-gray-900">Thông Tin Khách Hàng</h3>
-                          <p className="text-sm text-gray-500 mt-1">Tổng hợp đơn hàng</p>
+                          <p className="text-sm text-gray-500 mt-1">
+                              Tổng hợp đơn hàng ·{' '}
+                              <button
+                                  onClick={() => { setProfileKey(selectedOrder.customerKey!); setSelectedCustomerKey(null); }}
+                                  className="text-blue-600 hover:underline font-medium"
+                              >
+                                  Xem hồ sơ trọn đời
+                              </button>
+                          </p>
                       </div>
-                      <button onClick={() => setSelectedOrder(null)} className="p-1 hover:bg-gray-200 rounded-full transition-colors">
+                      <button onClick={() => setSelectedCustomerKey(null)} className="p-1 hover:bg-gray-200 rounded-full transition-colors">
                           <X className="w-5 h-5 text-gray-500" />
                       </button>
                   </div>
@@ -511,23 +1124,39 @@ export default function App() {
 
                           {selectedOrder.subOrders && selectedOrder.subOrders.length > 0 ? (
                               <div className="space-y-3">
-                                  {selectedOrder.subOrders.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map((sub, idx) => (
-                                      <div key={idx} className="bg-white p-3 rounded-xl border border-gray-200 shadow-sm hover:border-blue-300 transition-colors">
+                                  {selectedOrder.subOrders.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map((sub) => (
+                                      <div key={sub.id} className="bg-white p-3 rounded-xl border border-gray-200 shadow-sm hover:border-blue-300 transition-colors">
                                           <div className="flex justify-between items-start text-xs text-gray-500 mb-2 border-b border-gray-100 pb-2">
                                               <span className="flex items-center gap-1">
                                                   <Clock className="w-3 h-3" />
-                                                  {new Date(sub.date).toLocaleDateString('vi-VN')} {new Date(sub.date).toLocaleTimeString('vi-VN', {hour:'2-digit', minute:'2-digit'})}
+                                                  {formatDate(sub.date)} {formatTime(sub.date)}
+                                                  {isMultiSource && <span className="ml-1 px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">{sub.sourceName}</span>}
                                               </span>
-                                              <span className="font-bold text-gray-700 bg-gray-100 px-2 py-0.5 rounded">
-                                                  SL: {sub.quantity}
+                                              <span className="flex items-center gap-2">
+                                                  {(selectedOrder.subOrders!.length > 1 || customerDecisions.orderOverrides[sub.id]) && (
+                                                      <button
+                                                          onClick={() => handleCustomerDecisionsChange(toggleOrderSplit(customerDecisions, sub.id))}
+                                                          className="text-gray-400 hover:text-blue-600"
+                                                          title={customerDecisions.orderOverrides[sub.id] ? 'Trả đơn về khách tự nhận diện' : 'Đơn này của khách khác: tách thành khách riêng'}
+                                                      >
+                                                          {customerDecisions.orderOverrides[sub.id] ? 'Bỏ tách' : 'Tách'}
+                                                      </button>
+                                                  )}
+                                                  <span className="font-bold text-gray-700 bg-gray-100 px-2 py-0.5 rounded">
+                                                      SL: {sub.quantity}
+                                                  </span>
                                               </span>
                                           </div>
                                           <p className="text-gray-800 text-sm mb-2">{sub.details || "Không có ghi chú"}</p>
-                                          <div className="text-right">
+                                          <div className="text-right mb-2">
                                               <span className="text-sm font-bold text-blue-600">
                                                   {sub.amount.toLocaleString('vi-VN')} đ
                                               </span>
                                           </div>
+                                          <OrderTrackingEditor
+                                              tracking={getOrderTracking(orderTracking, sub.id)}
+                                              onChange={patch => handleOrderTrackingChange(sub.id, patch)}
+                                          />
                                       </div>
                                   ))}
                               </div>
@@ -541,6 +1170,54 @@ export default function App() {
               </div>
           </div>
       )}
+
+      {selectedProfile && (
+          <CustomerProfileModal
+            profile={selectedProfile}
+            showSource={isMultiSource}
+            onClose={() => setProfileKey(null)}
+          />
+      )}
+
+      {catalogSample !== null && (
+          <ProductCatalogEditor
+            products={products}
+            onChange={handleProductsChange}
+            sampleText={catalogSample}
+            onClose={() => setCatalogSample(null)}
+          />
+      )}
+
+      {isReportOpen && (
+          <PrintReport
+            shopName={shopName}
+            onShopNameChange={handleShopNameChange}
+            periodLabel={getDateFilterLabel(activeFilter)}
+            startDate={startDate}
+            endDate={endDate}
+            sourceNames={selectedSources.map(s => s.name)}
+            kpis={reportKpis()}
+            chartData={chartData}
+            granularity={granularity}
+            topCustomers={groupedOrders}
+            orders={filteredOrders}
+            onClose={() => setIsReportOpen(false)}
+          />
+      )}
+
+      {isIdentityPanelOpen && (
+          <CustomerIdentityPanel
+            suggestions={duplicateSuggestions}
+            merges={customerDecisions.merges}
+            customerNames={customerNames}
+            onMerge={(from, into) => handleCustomerDecisionsChange(mergeCustomers(customerDecisions, from, into))}
+            onDismiss={(a, b) => handleCustomerDecisionsChange(dismissSuggestion(customerDecisions, a, b))}
+            onUnmerge={key => handleCustomerDecisionsChange(unmergeCustomer(customerDecisions, key))}
+            onClose={() => setIsIdentityPanelOpen(false)}
+          />
+      )}
+
+      {renderSourceDialogs()}
     </div>
   );
 }
\ No newline at end of file
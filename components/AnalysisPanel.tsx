@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Sparkles, RefreshCw, AlertCircle } from 'lucide-react';
+import { DailyStat } from '../types';
+import { ANALYSIS_FIELDS, ANALYSIS_GRANULARITIES } from '../services/analysisSchema';
+import {
+  AnalysisProvider, CachedAnalysis, getAnalysisCacheKey, getCachedAnalysis, prepareAnalysisStats, runAnalysis
+} from '../services/analysisService';
+import { formatDateTime } from '../services/dateUtils';
+
+interface AnalysisPanelProps {
+  dailyStats: DailyStat[]; // Số liệu theo ngày của khoảng đang xem
+  startDate: string;
+  endDate: string;
+  provider: AnalysisProvider;
+}
+
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ dailyStats, startDate, endDate, provider }) => {
+  const cacheKey = useMemo(
+    () => getAnalysisCacheKey(provider.id, startDate, endDate, dailyStats),
+    [provider, startDate, endDate, dailyStats]
+  );
+  // Khoảng ngày dài được gom theo tuần / tháng trước khi gửi (runAnalysis gom lại đúng như vậy)
+  const prepared = useMemo(() => prepareAnalysisStats(dailyStats), [dailyStats]);
+  const [analysis, setAnalysis] = useState<CachedAnalysis | null>(() => getCachedAnalysis(cacheKey));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  // Bỏ qua kết quả trả về muộn của khoảng ngày / dữ liệu cũ
+  const currentKeyRef = useRef(cacheKey);
+
+  // Đổi khoảng ngày hoặc dữ liệu: hiện kết quả đã lưu (nếu có), không tự gọi mô hình để tránh tốn phí
+  useEffect(() => {
+    currentKeyRef.current = cacheKey;
+    setAnalysis(getCachedAnalysis(cacheKey));
+    setIsLoading(false);
+    setError('');
+  }, [cacheKey]);
+
+  const handleAnalyze = async (force: boolean) => {
+    const key = cacheKey;
+    setIsLoading(true);
+    setError('');
+    try {
+      const result = await runAnalysis(provider, key, dailyStats, force);
+      if (currentKeyRef.current === key) setAnalysis(result);
+    } catch (err) {
+      if (currentKeyRef.current === key) setError(err instanceof Error ? err.message : 'Không phân tích được dữ liệu');
+    } finally {
+      if (currentKeyRef.current === key) setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-violet-500" />
+          Phân Tích AI
+          {provider.id !== 'gemini' && (
+            <span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-50 text-amber-700 border border-amber-100">{provider.label}</span>
+          )}
+        </h3>
+        <button
+          onClick={() => handleAnalyze(analysis !== null)}
+          disabled={isLoading || dailyStats.length === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-violet-700 bg-violet-50 rounded-lg hover:bg-violet-100 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          {isLoading ? 'Đang phân tích...' : analysis ? 'Phân tích lại' : 'Phân tích'}
+        </button>
+      </div>
+
+      {prepared.granularity !== 'day' && (
+        <p className="text-xs text-gray-500 bg-gray-50 px-3 py-2 rounded-lg mb-4">
+          Khoảng thời gian dài ({dailyStats.length} ngày) nên số liệu được gom theo {ANALYSIS_GRANULARITIES.find(g => g.id === prepared.granularity)!.label} ({prepared.stats.length} mốc) trước khi phân tích
+          {prepared.truncated && `, chỉ gửi ${prepared.stats.length} tháng gần nhất`}.
+        </p>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-2 text-sm text-red-600 bg-red-50 px-3 py-2 rounded-lg mb-4">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {analysis ? (
+        <div className="space-y-3">
+          {ANALYSIS_FIELDS.map(field => (
+            <div key={field.key}>
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{field.label}</p>
+              <p className={`text-sm mt-0.5 ${analysis.missing.includes(field.key) ? 'text-gray-400 italic' : 'text-gray-800'}`}>
+                {analysis.result[field.key]}
+              </p>
+            </div>
+          ))}
+          <p className="text-xs text-gray-400 pt-1">
+            Phân tích lúc {formatDateTime(analysis.createdAt)}
+            {analysis.missing.length > 0 && ' · Phản hồi thiếu một số mục'}
+          </p>
+        </div>
+      ) : (
+        !error && (
+          <p className="text-sm text-gray-500">
+            {dailyStats.length === 0
+              ? 'Chưa có dữ liệu trong khoảng thời gian này.'
+              : 'Bấm "Phân tích" để nhận nhận xét về doanh số của khoảng thời gian đang xem.'}
+          </p>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { DollarSign, ShoppingBag, TrendingUp, Users, Target, BarChart3, LineChart, AreaChart, FlaskConical } from 'lucide-react';
+import { DailyStat } from '../types';
+import { RevenueChart, OrdersChart, AverageOrderChart, CustomerMixChart, CumulativeChart, ChartType } from './Charts';
+import { Granularity, GRANULARITIES, CumulativePoint } from '../services/statsService';
+import { loadFromStorage, saveToStorage } from '../services/storage';
+import { ForecastPoint, ForecastHorizon, FORECAST_HORIZONS, BacktestSummary } from '../services/forecastService';
+import { ForecastBacktest } from './ForecastBacktest';
+
+type ChartMetric = 'revenue' | 'quantity' | 'average' | 'customers' | 'cumulative';
+
+const METRICS: { id: ChartMetric; label: string; title: string; icon: typeof DollarSign; color: string }[] = [
+  { id: 'revenue', label: 'Doanh thu', title: 'Biểu Đồ Doanh Thu', icon: DollarSign, color: 'text-blue-500' },
+  { id: 'quantity', label: 'Số lượng', title: 'Biểu Đồ Số Lượng', icon: ShoppingBag, color: 'text-green-500' },
+  { id: 'average', label: 'Giá trị TB', title: 'Giá Trị Trung Bình / Đơn', icon: TrendingUp, color: 'text-purple-500' },
+  { id: 'customers', label: 'Khách mới / cũ', title: 'Khách Mới & Khách Quay Lại', icon: Users, color: 'text-orange-500' },
+  { id: 'cumulative', label: 'Lũy kế tháng', title: 'Doanh Thu Lũy Kế Tháng', icon: Target, color: 'text-red-500' },
+];
+
+const CHART_TYPES: { id: ChartType; label: string; icon: typeof BarChart3 }[] = [
+  { id: 'bar', label: 'Cột', icon: BarChart3 },
+  { id: 'line', label: 'Đường', icon: LineChart },
+  { id: 'area', label: 'Vùng', icon: AreaChart },
+];
+
+interface ChartPanelSettings {
+  metric: ChartMetric;
+  chartType: ChartType;
+  showForecast: boolean;
+  forecastHorizon: ForecastHorizon;
+}
+
+const SETTINGS_KEY = 'chartPanelSettings';
+
+interface ChartPanelProps {
+  data: DailyStat[];
+  granularity: Granularity;
+  onGranularityChange: (granularity: Granularity) => void;
+  comparisonLabel: string | null; // null khi bộ lọc ngày không có kỳ so sánh
+  showComparison: boolean;
+  onShowComparisonChange: (value: boolean) => void;
+  cumulative: CumulativePoint[];
+  cumulativeMonth: string; // YYYY-MM
+  monthlyTarget: number; // Mục tiêu của tháng lũy kế cho các nguồn đang xem (0 = chưa đặt), đặt ở thẻ Mục tiêu
+  forecast: ForecastPoint[] | null; // null khi chưa đủ lịch sử hoặc khoảng đang xem không kéo tới hiện tại
+  backtest: BacktestSummary;
+}
+
+export const ChartPanel: React.FC<ChartPanelProps> = ({
+  data, granularity, onGranularityChange, comparisonLabel, showComparison, onShowComparisonChange,
+  cumulative, cumulativeMonth, monthlyTarget, forecast, backtest
+}) => {
+  const [settings, setSettings] = useState<ChartPanelSettings>(() => ({
+    metric: 'revenue',
+    chartType: 'bar',
+    showForecast: false,
+    forecastHorizon: 7,
+    ...loadFromStorage<Partial<ChartPanelSettings>>(SETTINGS_KEY, {})
+  }));
+
+  const updateSettings = (patch: Partial<ChartPanelSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveToStorage(SETTINGS_KEY, next);
+  };
+
+  const metric = METRICS.find(m => m.id === settings.metric) || METRICS[0];
+  const isCumulative = metric.id === 'cumulative';
+  const [year, month] = cumulativeMonth.split('-');
+  const chartProps = { data, granularity, chartType: settings.chartType };
+  // Dự báo theo ngày, nên chỉ vẽ khi xem doanh thu / số lượng theo ngày
+  const canForecast = forecast !== null && granularity === 'day' && (metric.id === 'revenue' || metric.id === 'quantity');
+  const visibleForecast = canForecast && settings.showForecast ? forecast.slice(0, settings.forecastHorizon) : undefined;
+  const [isBacktestOpen, setIsBacktestOpen] = useState(false);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="mb-6 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <metric.icon className={`w-5 h-5 ${metric.color}`} />
+            {isCumulative
+              ? `${metric.title} ${Number(month)}/${year}`
+              : `${metric.title} Theo ${GRANULARITIES.find(g => g.id === granularity)!.label}`}
+          </h3>
+          <div className="flex bg-gray-100 p-0.5 rounded-lg overflow-x-auto">
+            {METRICS.map(m => (
+              <button
+                key={m.id}
+                onClick={() => updateSettings({ metric: m.id })}
+                className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-all whitespace-nowrap ${settings.metric === m.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          {isCumulative ? (
+            <p className="text-sm text-gray-600">
+              Mục tiêu tháng:{' '}
+              {monthlyTarget > 0
+                ? <span className="font-semibold text-gray-900">{monthlyTarget.toLocaleString('vi-VN', { style: 'currency', currency: 'VND' })}</span>
+                : <span className="text-gray-400">chưa đặt</span>}
+            </p>
+          ) : (
+            <>
+              {canForecast && (
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.showForecast}
+                      onChange={e => updateSettings({ showForecast: e.target.checked })}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Dự báo
+                  </label>
+                  {settings.showForecast && (
+                    <>
+                      <div className="flex bg-gray-100 p-0.5 rounded-lg">
+                        {FORECAST_HORIZONS.map(days => (
+                          <button
+                            key={days}
+                            onClick={() => updateSettings({ forecastHorizon: days })}
+                            className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-all ${settings.forecastHorizon === days ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                          >
+                            {days} ngày
+                          </button>
+                        ))}
+                      </div>
+                      <button
+                        onClick={() => setIsBacktestOpen(!isBacktestOpen)}
+                        title="Kiểm tra độ chính xác của dự báo trên các tháng đã qua"
+                        className={`p-1.5 rounded-lg transition-all ${isBacktestOpen ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`}
+                      >
+                        <FlaskConical className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+              {metric.id === 'revenue' && comparisonLabel && (
+                <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showComparison}
+                    onChange={e => onShowComparisonChange(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {comparisonLabel}
+                </label>
+              )}
+              <div className="flex bg-gray-100 p-0.5 rounded-lg">
+                {CHART_TYPES.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => updateSettings({ chartType: t.id })}
+                    title={t.label}
+                    className={`p-1.5 rounded-md transition-all ${settings.chartType === t.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    <t.icon className="w-4 h-4" />
+                  </button>
+                ))}
+              </div>
+              <div className="flex bg-gray-100 p-0.5 rounded-lg">
+                {GRANULARITIES.map(g => (
+                  <button
+                    key={g.id}
+                    onClick={() => onGranularityChange(g.id)}
+                    className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-all ${granularity === g.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {g.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {metric.id === 'revenue' && <RevenueChart {...chartProps} showComparison={showComparison && !!comparisonLabel} forecast={visibleForecast} />}
+      {metric.id === 'quantity' && <OrdersChart {...chartProps} forecast={visibleForecast} />}
+      {metric.id === 'average' && <AverageOrderChart {...chartProps} />}
+      {metric.id === 'customers' && <CustomerMixChart {...chartProps} />}
+      {isCumulative && <CumulativeChart data={cumulative} target={monthlyTarget} />}
+      {visibleForecast && isBacktestOpen && (
+        <div className="mt-6 pt-4 border-t border-gray-100">
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">Kiểm tra dự báo trên các tháng đã qua</h4>
+          <ForecastBacktest summary={backtest} />
+        </div>
+      )}
+    </div>
+  );
+};
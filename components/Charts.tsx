@@ -1,87 +1,243 @@
 import React from 'react';
 import {
-  BarChart,
   Bar,
+  ComposedChart,
+  Line,
+  Legend,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  AreaChart,
-  Area
+  Area,
+  ReferenceLine
 } from 'recharts';
 import { DailyStat } from '../types';
+import { formatDateKey } from '../services/dateUtils';
+import { Granularity, CumulativePoint, formatBucketLabel } from '../services/statsService';
+import { ForecastPoint, ForecastMetric, FORECAST_CONFIDENCE } from '../services/forecastService';
+
+export type ChartType = 'bar' | 'line' | 'area';
 
 interface ChartsProps {
   data: DailyStat[];
+  granularity?: Granularity; // Mỗi điểm là một ngày / tuần / tháng / quý (DailyStat.date là ngày đầu nhóm)
+  chartType?: ChartType;
+}
+
+interface RevenueChartProps extends ChartsProps {
+  showComparison?: boolean; // Vẽ thêm đường doanh thu kỳ so sánh (previousRevenue)
+  forecast?: ForecastPoint[]; // Dự báo theo ngày, nối tiếp sau dữ liệu thực tế (chỉ dùng với granularity 'day')
+}
+
+interface OrdersChartProps extends ChartsProps {
+  forecast?: ForecastPoint[];
+}
+
+interface Series {
+  dataKey: string;
+  name: string;
+  color: string;
+  stackId?: string;
 }
 
-export const RevenueChart: React.FC<ChartsProps> = ({ data }) => {
+const formatCurrency = (value: number) => new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND', maximumFractionDigits: 0 }).format(value);
+const formatCompact = (value: number) => new Intl.NumberFormat('vi-VN', { notation: "compact" }).format(value);
+const formatCount = (value: number) => value.toLocaleString('vi-VN');
+
+const AXIS_PROPS = { stroke: '#9CA3AF', fontSize: 12, tickLine: false, axisLine: false };
+const TOOLTIP_STYLE = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+const renderSeries = ({ dataKey, name, color, stackId }: Series, chartType: ChartType) => {
+  switch (chartType) {
+    case 'bar':
+      return <Bar key={dataKey} dataKey={dataKey} name={name} fill={color} stackId={stackId} radius={stackId ? undefined : [4, 4, 0, 0]} />;
+    case 'line':
+      return <Line key={dataKey} type="monotone" dataKey={dataKey} name={name} stroke={color} strokeWidth={2} dot={false} />;
+    case 'area':
+      return <Area key={dataKey} type="monotone" dataKey={dataKey} name={name} stroke={color} fill={color} fillOpacity={0.15} strokeWidth={2} stackId={stackId} />;
+  }
+};
+
+interface SeriesChartProps {
+  data: object[];
+  series: Series[];
+  granularity: Granularity;
+  chartType: ChartType;
+  formatValue: (value: number) => string;
+  formatAxis?: (value: number) => string;
+  comparison?: Series; // Đường kỳ so sánh (nét đứt), luôn vẽ dạng đường
+  forecast?: Series; // Đường dự báo (nét đứt, dataKey 'forecast') kèm vùng khoảng tin cậy ('forecastRange')
+}
+
+/**
+ * Gắn dự báo vào chuỗi thực tế: ngày đã có số liệu (hôm nay, chưa trọn ngày) giữ cột thực tế và thêm điểm dự báo,
+ * các ngày sau được nối thêm. Điểm thực tế ngay trước dự báo được lặp lại để đường nét đứt liền mạch.
+ */
+const withForecast = (data: DailyStat[], forecast: ForecastPoint[], metric: ForecastMetric): object[] => {
+  if (forecast.length === 0) return data;
+  const byDate = new Map(forecast.map(p => [p.date, p]));
+  const range = (p: ForecastPoint) => metric === 'revenue' ? [p.revenueLow, p.revenueHigh] : [p.orderCountLow, p.orderCountHigh];
+
+  const rows: object[] = data.map(d => {
+    const point = byDate.get(d.date);
+    return point ? { ...d, forecast: point[metric], forecastRange: range(point) } : d;
+  });
+  const anchorIndex = data.filter(d => d.date < forecast[0].date).length - 1; // data đã sắp theo ngày
+  if (anchorIndex >= 0) {
+    const value = data[anchorIndex][metric];
+    rows[anchorIndex] = { ...data[anchorIndex], forecast: value, forecastRange: [value, value] };
+  }
+  const lastDate = data.length > 0 ? data[data.length - 1].date : '';
+  forecast.filter(p => p.date > lastDate).forEach(p => rows.push({ date: p.date, forecast: p[metric], forecastRange: range(p) }));
+  return rows;
+};
+
+// Khung biểu đồ dùng chung: trục thời gian theo nhóm ngày, một hoặc nhiều chuỗi số liệu
+const SeriesChart: React.FC<SeriesChartProps> = ({ data, series, granularity, chartType, formatValue, formatAxis = formatCompact, comparison, forecast }) => {
   return (
     <div className="h-80 w-full">
       <ResponsiveContainer width="100%" height="100%">
-        <BarChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+        <ComposedChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
           <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E5E7EB" />
-          <XAxis 
-            dataKey="date" 
-            tickFormatter={(date) => new Date(date).toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' })}
-            stroke="#9CA3AF"
-            fontSize={12}
-            tickLine={false}
-            axisLine={false}
+          <XAxis
+            dataKey="date"
+            tickFormatter={(date) => formatBucketLabel(date, granularity)}
+            {...AXIS_PROPS}
           />
-          <YAxis 
-            tickFormatter={(value) => new Intl.NumberFormat('vi-VN', { notation: "compact" }).format(value)}
-            stroke="#9CA3AF"
-            fontSize={12}
-            tickLine={false}
-            axisLine={false}
+          <YAxis
+            tickFormatter={formatAxis}
+            {...AXIS_PROPS}
           />
-          <Tooltip 
-            formatter={(value: number) => new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value)}
-            labelFormatter={(label) => new Date(label).toLocaleDateString('vi-VN')}
-            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+          <Tooltip
+            formatter={(value: number | number[], name: string, item: { payload?: DailyStat }) =>
+              Array.isArray(value)
+                ? [`${formatValue(value[0])} - ${formatValue(value[1])}`, name]
+                : comparison && name === comparison.name && item.payload?.previousDate
+                  ? [formatValue(value), `${name} (${formatDateKey(item.payload.previousDate)})`]
+                  : [formatValue(value), name]
+            }
+            labelFormatter={(label) => formatBucketLabel(label, granularity, true)}
+            contentStyle={TOOLTIP_STYLE}
           />
-          <Bar dataKey="revenue" name="Doanh Thu" fill="#3B82F6" radius={[4, 4, 0, 0]} />
-        </BarChart>
+          {(series.length > 1 || comparison || forecast) && <Legend iconType="circle" wrapperStyle={{ fontSize: 12 }} />}
+          {series.map(s => renderSeries(s, chartType))}
+          {comparison && (
+            <Line type="monotone" dataKey={comparison.dataKey} name={comparison.name} stroke={comparison.color} strokeWidth={2} strokeDasharray="4 4" dot={false} />
+          )}
+          {forecast && (
+            <Area type="monotone" dataKey="forecastRange" name={`Khoảng tin cậy ${FORECAST_CONFIDENCE}%`} stroke="none" fill={forecast.color} fillOpacity={0.12} />
+          )}
+          {forecast && (
+            <Line type="monotone" dataKey="forecast" name={forecast.name} stroke={forecast.color} strokeWidth={2} strokeDasharray="6 4" dot={false} />
+          )}
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
 };
 
-export const OrdersChart: React.FC<ChartsProps> = ({ data }) => {
+export const RevenueChart: React.FC<RevenueChartProps> = ({ data, granularity = 'day', chartType = 'bar', showComparison = false, forecast }) => (
+  <SeriesChart
+    data={forecast ? withForecast(data, forecast, 'revenue') : data}
+    series={[{ dataKey: 'revenue', name: 'Doanh Thu', color: '#3B82F6' }]}
+    granularity={granularity}
+    chartType={chartType}
+    formatValue={formatCurrency}
+    comparison={showComparison ? { dataKey: 'previousRevenue', name: 'Kỳ trước', color: '#9CA3AF' } : undefined}
+    forecast={forecast ? { dataKey: 'forecast', name: 'Dự báo', color: '#6366F1' } : undefined}
+  />
+);
+
+export const OrdersChart: React.FC<OrdersChartProps> = ({ data, granularity = 'day', chartType = 'area', forecast }) => (
+  <SeriesChart
+    data={forecast ? withForecast(data, forecast, 'orderCount') : data}
+    series={[{ dataKey: 'orderCount', name: 'Số Lượng', color: '#10B981' }]}
+    granularity={granularity}
+    chartType={chartType}
+    formatValue={value => formatCount(Math.round(value))}
+    forecast={forecast ? { dataKey: 'forecast', name: 'Dự báo', color: '#6366F1' } : undefined}
+  />
+);
+
+export const AverageOrderChart: React.FC<ChartsProps> = ({ data, granularity = 'day', chartType = 'line' }) => (
+  <SeriesChart
+    data={data.map(d => ({ ...d, averageOrderValue: d.orderCount > 0 ? d.revenue / d.orderCount : 0 }))}
+    series={[{ dataKey: 'averageOrderValue', name: 'Giá Trị TB', color: '#8B5CF6' }]}
+    granularity={granularity}
+    chartType={chartType}
+    formatValue={formatCurrency}
+  />
+);
+
+export const CustomerMixChart: React.FC<ChartsProps> = ({ data, granularity = 'day', chartType = 'bar' }) => (
+  <SeriesChart
+    data={data}
+    series={[
+      { dataKey: 'newCustomers', name: 'Khách mới', color: '#3B82F6', stackId: 'customers' },
+      { dataKey: 'returningCustomers', name: 'Khách quay lại', color: '#F59E0B', stackId: 'customers' },
+    ]}
+    granularity={granularity}
+    chartType={chartType}
+    formatValue={formatCount}
+    formatAxis={formatCount}
+  />
+);
+
+const PRODUCT_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EF4444', '#06B6D4'];
+
+interface ProductSalesChartProps {
+  data: object[]; // [{ date, [productId]: số lượng }]
+  products: { id: string; name: string }[];
+  granularity?: Granularity;
+  chartType?: ChartType;
+}
+
+export const ProductSalesChart: React.FC<ProductSalesChartProps> = ({ data, products, granularity = 'day', chartType = 'line' }) => (
+  <SeriesChart
+    data={data}
+    series={products.map((p, i) => ({ dataKey: p.id, name: p.name, color: PRODUCT_COLORS[i % PRODUCT_COLORS.length] }))}
+    granularity={granularity}
+    chartType={chartType}
+    formatValue={formatCount}
+    formatAxis={formatCount}
+  />
+);
+
+interface CumulativeChartProps {
+  data: CumulativePoint[];
+  target: number; // 0 = chưa đặt mục tiêu
+}
+
+// Doanh thu lũy kế trong tháng so với đường tiến độ đều tới mục tiêu
+export const CumulativeChart: React.FC<CumulativeChartProps> = ({ data, target }) => {
   return (
     <div className="h-80 w-full">
       <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
-          <defs>
-            <linearGradient id="colorOrders" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#10B981" stopOpacity={0.1}/>
-              <stop offset="95%" stopColor="#10B981" stopOpacity={0}/>
-            </linearGradient>
-          </defs>
+        <ComposedChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
           <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E5E7EB" />
-          <XAxis 
-            dataKey="date" 
-            tickFormatter={(date) => new Date(date).toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' })}
-            stroke="#9CA3AF"
-            fontSize={12}
-            tickLine={false}
-            axisLine={false}
+          <XAxis
+            dataKey="date"
+            tickFormatter={(date) => formatDateKey(date, false)}
+            {...AXIS_PROPS}
           />
-          <YAxis 
-            stroke="#9CA3AF"
-            fontSize={12}
-            tickLine={false}
-            axisLine={false}
+          <YAxis
+            tickFormatter={formatCompact}
+            {...AXIS_PROPS}
           />
-          <Tooltip 
-            labelFormatter={(label) => new Date(label).toLocaleDateString('vi-VN')}
-            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+          <Tooltip
+            formatter={(value: number, name: string) => [formatCurrency(value), name]}
+            labelFormatter={(label) => formatDateKey(label)}
+            contentStyle={TOOLTIP_STYLE}
           />
-          <Area type="monotone" dataKey="orderCount" name="Số Đơn" stroke="#10B981" fillOpacity={1} fill="url(#colorOrders)" strokeWidth={2} />
-        </AreaChart>
+          <Legend iconType="circle" wrapperStyle={{ fontSize: 12 }} />
+          <Area type="monotone" dataKey="actual" name="Lũy kế" stroke="#3B82F6" fill="#3B82F6" fillOpacity={0.15} strokeWidth={2} />
+          {target > 0 && (
+            <Line type="linear" dataKey="target" name="Tiến độ mục tiêu" stroke="#9CA3AF" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+          )}
+          {target > 0 && <ReferenceLine y={target} stroke="#EF4444" strokeDasharray="3 3" label={{ value: 'Mục tiêu', position: 'insideTopLeft', fontSize: 12, fill: '#EF4444' }} />}
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
-};
\ No newline at end of file
+};
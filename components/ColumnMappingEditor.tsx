@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, RefreshCw, AlertCircle, Columns } from 'lucide-react';
+import { DataSource, ColumnMapping, OrderField } from '../types';
+import { ORDER_FIELDS, fetchSourcePreview, resolveColumns, SourcePreview } from '../services/dataService';
+
+interface ColumnMappingEditorProps {
+  source: DataSource;
+  onSave: (mapping: ColumnMapping) => void;
+  onClose: () => void;
+}
+
+export const ColumnMappingEditor: React.FC<ColumnMappingEditorProps> = ({ source, onSave, onClose }) => {
+  const [preview, setPreview] = useState<SourcePreview | null>(null);
+  const [error, setError] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>(source.columnMapping || {});
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+    fetchSourcePreview(source)
+      .then(result => { if (!cancelled) setPreview(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Không tải được dòng tiêu đề.'); });
+    return () => { cancelled = true; };
+  }, [source]);
+
+  // Cột sẽ được dùng thực tế (ghép tay + tự động cho trường còn trống)
+  const resolved = useMemo(
+    () => preview ? resolveColumns(preview.headers, mapping) : {},
+    [preview, mapping]
+  );
+
+  const sampleValues = (header: string) => {
+    if (!preview) return [];
+    const idx = preview.headers.indexOf(header);
+    return preview.sampleRows.map(r => r[idx] || '').filter(v => v !== '');
+  };
+
+  const setField = (field: OrderField, header: string) => {
+    const next = { ...mapping };
+    if (header) {
+      next[field] = header;
+    } else {
+      delete next[field];
+    }
+    setMapping(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-100 flex justify-between items-start bg-gray-50/50 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <Columns className="w-5 h-5 text-blue-600" />
+              Ghép Cột Dữ Liệu
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">{source.name} · Trường để trống sẽ tự nhận diện theo từ khóa</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 text-sm text-red-700 border border-red-100">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+          {!preview && !error && (
+            <div className="flex items-center justify-center py-10 text-gray-500 text-sm gap-2">
+              <RefreshCw className="w-4 h-4 animate-spin" />
+              Đang đọc dòng tiêu đề...
+            </div>
+          )}
+
+          {preview && ORDER_FIELDS.map(({ field, label }) => {
+            const manual = mapping[field];
+            const effective = resolved[field];
+            const samples = effective ? sampleValues(effective) : [];
+            return (
+              <div key={field} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-start p-3 rounded-xl border border-gray-100">
+                <div>
+                  <p className="text-sm font-semibold text-gray-900">{label}</p>
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    {manual ? 'Ghép thủ công' : effective ? `Tự động: "${effective}"` : 'Không tìm thấy cột'}
+                  </p>
+                </div>
+                <select
+                  value={manual || ''}
+                  onChange={e => setField(field, e.target.value)}
+                  className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-100"
+                >
+                  <option value="">— Tự động —</option>
+                  {preview.headers.map((h, i) => (
+                    <option key={`${h}-${i}`} value={h}>{h || `(cột ${i + 1} không tên)`}</option>
+                  ))}
+                </select>
+                <div className="text-xs text-gray-500 space-y-0.5 min-w-0">
+                  {samples.length > 0
+                    ? samples.map((v, i) => <p key={i} className="truncate" title={v}>{v}</p>)
+                    : <p className="text-gray-300 italic">Không có giá trị mẫu</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-between gap-2 flex-shrink-0">
+          <button
+            onClick={() => setMapping({})}
+            className="px-4 py-2 text-sm text-gray-600 rounded-lg hover:bg-gray-50"
+          >
+            Đặt lại tự động
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50">
+              Hủy
+            </button>
+            <button
+              onClick={() => onSave(mapping)}
+              disabled={!preview}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Lưu ghép cột
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { X, Users, Merge, Undo2 } from 'lucide-react';
+import { DuplicateSuggestion } from '../services/customerService';
+
+interface CustomerIdentityPanelProps {
+  suggestions: DuplicateSuggestion[];
+  merges: Record<string, string>;
+  customerNames: Record<string, string>;
+  onMerge: (fromKey: string, intoKey: string) => void;
+  onDismiss: (a: string, b: string) => void;
+  onUnmerge: (key: string) => void;
+  onClose: () => void;
+}
+
+// Khóa dạng "fb:..." / "name:..." / "split:..." -> nhãn dễ đọc
+const describeKey = (key: string) => {
+  if (key.startsWith('fb:')) return `Facebook ${key.slice(3)}`;
+  if (key.startsWith('split:')) return 'Đơn tách riêng';
+  return 'Theo tên';
+};
+
+export const CustomerIdentityPanel: React.FC<CustomerIdentityPanelProps> = ({
+  suggestions, merges, customerNames, onMerge, onDismiss, onUnmerge, onClose
+}) => {
+  const nameOf = (key: string) => customerNames[key] || key.replace(/^(fb|name|split):/, '');
+  const mergeEntries: [string, string][] = Object.entries(merges);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-100 flex justify-between items-start bg-gray-50/50 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <Users className="w-5 h-5 text-orange-500" />
+              Khách Hàng Trùng Lặp
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">Gộp các khách là cùng một người, hoặc bỏ qua gợi ý sai</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="space-y-3">
+            <p className="text-sm font-semibold text-gray-900">Gợi ý ({suggestions.length})</p>
+            {suggestions.length === 0 && <p className="text-sm text-gray-500">Không có khách nào nghi trùng.</p>}
+            {suggestions.map(({ keys: [a, b], names, reason }) => (
+              <div key={`${a}|${b}`} className="p-3 rounded-xl border border-gray-200 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-gray-900 truncate">{names[0]}</p>
+                    <p className="text-xs text-gray-400 truncate">{describeKey(a)}</p>
+                  </div>
+                  <span className="text-xs text-amber-700 bg-amber-50 px-2 py-0.5 rounded flex-shrink-0">{reason}</span>
+                  <div className="min-w-0 text-right">
+                    <p className="text-sm font-semibold text-gray-900 truncate">{names[1]}</p>
+                    <p className="text-xs text-gray-400 truncate">{describeKey(b)}</p>
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => onDismiss(a, b)} className="px-3 py-1.5 text-xs text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50">
+                    Không phải cùng người
+                  </button>
+                  <button onClick={() => onMerge(b, a)} className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+                    <Merge className="w-3.5 h-3.5" />
+                    Gộp
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {mergeEntries.length > 0 && (
+            <div className="border-t border-gray-100 pt-4 space-y-2">
+              <p className="text-sm font-semibold text-gray-900">Đã gộp thủ công</p>
+              {mergeEntries.map(([from, into]) => (
+                <div key={from} className="flex items-center justify-between gap-3 p-2 rounded-lg bg-gray-50">
+                  <p className="text-sm text-gray-700 truncate">
+                    {nameOf(from)} <span className="text-gray-400">→</span> {nameOf(into)}
+                  </p>
+                  <button onClick={() => onUnmerge(from)} className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 rounded hover:bg-gray-200 flex-shrink-0">
+                    <Undo2 className="w-3.5 h-3.5" />
+                    Tách ra
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Search } from 'lucide-react';
+import { CustomerProfile, RfmSegment } from '../types';
+import { RFM_SEGMENTS, getSegmentInfo } from '../services/customerProfileService';
+import { normalizeName } from '../services/customerService';
+import { formatDate } from '../services/dateUtils';
+
+interface CustomerListProps {
+  profiles: CustomerProfile[];
+  onSelect: (profile: CustomerProfile) => void;
+}
+
+type SortKey = 'totalRevenue' | 'orderCount' | 'averageBasket' | 'lastOrderDate' | 'firstOrderDate' | 'name';
+
+const COLUMNS: { key: SortKey; label: string; align?: 'right' | 'center' }[] = [
+  { key: 'name', label: 'Khách Hàng' },
+  { key: 'lastOrderDate', label: 'Mua Gần Nhất' },
+  { key: 'firstOrderDate', label: 'Mua Lần Đầu' },
+  { key: 'orderCount', label: 'Số Lần Mua', align: 'center' },
+  { key: 'averageBasket', label: 'TB / Lần', align: 'right' },
+  { key: 'totalRevenue', label: 'Tổng Chi Tiêu', align: 'right' },
+];
+
+const PAGE_SIZE = 50;
+
+const compareBy = (key: SortKey) => (a: CustomerProfile, b: CustomerProfile) => {
+  if (key === 'name') return a.name.localeCompare(b.name, 'vi');
+  if (key === 'lastOrderDate' || key === 'firstOrderDate') return new Date(a[key]).getTime() - new Date(b[key]).getTime();
+  return a[key] - b[key];
+};
+
+export const CustomerList: React.FC<CustomerListProps> = ({ profiles, onSelect }) => {
+  const [segment, setSegment] = useState<RfmSegment | 'all'>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('totalRevenue');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [query, setQuery] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const segmentCounts = useMemo(() => {
+    const counts: Partial<Record<RfmSegment, number>> = {};
+    profiles.forEach(p => { counts[p.segment] = (counts[p.segment] || 0) + 1; });
+    return counts;
+  }, [profiles]);
+
+  const rows = useMemo(() => {
+    const q = normalizeName(query);
+    const filtered = profiles.filter(p =>
+      (segment === 'all' || p.segment === segment) && (!q || normalizeName(p.name).includes(q))
+    );
+    const compare = compareBy(sortKey);
+    return filtered.sort((a, b) => sortDesc ? compare(b, a) : compare(a, b));
+  }, [profiles, segment, sortKey, sortDesc, query]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(d => !d);
+    } else {
+      setSortKey(key);
+      setSortDesc(key !== 'name');
+    }
+  };
+
+  return (
+    <div>
+      <div className="px-6 py-4 flex flex-col md:flex-row md:items-center gap-3 border-b border-gray-100">
+        <div className="flex flex-wrap gap-1.5 flex-1">
+          <button
+            onClick={() => { setSegment('all'); setVisibleCount(PAGE_SIZE); }}
+            className={`px-2.5 py-1 rounded-full text-xs font-medium ${segment === 'all' ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+          >
+            Tất cả ({profiles.length})
+          </button>
+          {RFM_SEGMENTS.filter(s => segmentCounts[s.id]).map(s => (
+            <button
+              key={s.id}
+              onClick={() => { setSegment(s.id); setVisibleCount(PAGE_SIZE); }}
+              title={s.description}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium ${segment === s.id ? 'ring-2 ring-offset-1 ring-gray-400 ' : ''}${s.color}`}
+            >
+              {s.label} ({segmentCounts[s.id]})
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 bg-gray-50 px-3 py-1.5 rounded-lg border border-gray-200">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={e => { setQuery(e.target.value); setVisibleCount(PAGE_SIZE); }}
+            placeholder="Tìm khách..."
+            className="bg-transparent border-none text-sm focus:ring-0 focus:outline-none p-0 w-40"
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-gray-500 uppercase bg-gray-50/50">
+            <tr>
+              {COLUMNS.map(col => (
+                <th
+                  key={col.key}
+                  onClick={() => handleSort(col.key)}
+                  className={`px-6 py-4 font-semibold whitespace-nowrap cursor-pointer select-none hover:text-gray-700 ${
+                    col.align === 'right' ? 'text-right' : col.align === 'center' ? 'text-center' : ''
+                  }`}
+                >
+                  {col.label}
+                  {sortKey === col.key && (sortDesc
+                    ? <ArrowDown className="w-3 h-3 inline ml-1" />
+                    : <ArrowUp className="w-3 h-3 inline ml-1" />)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.slice(0, visibleCount).map(p => {
+              const info = getSegmentInfo(p.segment);
+              return (
+                <tr key={p.key} onClick={() => onSelect(p)} className="hover:bg-blue-50/50 transition-colors cursor-pointer group">
+                  <td className="px-6 py-4">
+                    <span className="font-bold text-gray-900 group-hover:text-blue-600 transition-colors">{p.name}</span>
+                    <span className={`ml-2 inline-flex px-2 py-0.5 rounded text-xs font-medium ${info.color}`}>{info.label}</span>
+                  </td>
+                  <td className="px-6 py-4 text-gray-500 whitespace-nowrap">
+                    {formatDate(p.lastOrderDate)}
+                    <span className="text-xs text-gray-400 ml-1">({p.recencyDays === 0 ? 'hôm nay' : `${p.recencyDays} ngày`})</span>
+                  </td>
+                  <td className="px-6 py-4 text-gray-500 whitespace-nowrap">{formatDate(p.firstOrderDate)}</td>
+                  <td className="px-6 py-4 text-center">
+                    <span className="inline-block px-2.5 py-1 bg-gray-100 rounded-full text-xs font-semibold text-gray-700">{p.orderCount}</span>
+                  </td>
+                  <td className="px-6 py-4 text-right text-gray-700 whitespace-nowrap">
+                    {Math.round(p.averageBasket).toLocaleString('vi-VN')} đ
+                  </td>
+                  <td className="px-6 py-4 text-right font-bold text-blue-600 whitespace-nowrap text-base">
+                    {p.totalRevenue.toLocaleString('vi-VN', { style: 'currency', currency: 'VND' })}
+                  </td>
+                </tr>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length} className="px-6 py-12 text-center text-gray-500">Không có khách hàng nào phù hợp.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length > visibleCount && (
+        <div className="p-4 text-center border-t border-gray-100">
+          <button onClick={() => setVisibleCount(c => c + PAGE_SIZE)} className="px-4 py-2 text-sm font-medium text-blue-600 rounded-lg hover:bg-blue-50">
+            Xem thêm ({rows.length - visibleCount} khách)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { X, Facebook, Clock, History } from 'lucide-react';
+import { CustomerProfile } from '../types';
+import { getSegmentInfo } from '../services/customerProfileService';
+import { formatDate, formatTime } from '../services/dateUtils';
+
+interface CustomerProfileModalProps {
+  profile: CustomerProfile;
+  showSource: boolean;
+  onClose: () => void;
+}
+
+const RFM_LABELS: { key: 'r' | 'f' | 'm'; label: string }[] = [
+  { key: 'r', label: 'Gần đây' },
+  { key: 'f', label: 'Tần suất' },
+  { key: 'm', label: 'Chi tiêu' },
+];
+
+export const CustomerProfileModal: React.FC<CustomerProfileModalProps> = ({ profile, showSource, onClose }) => {
+  const segment = getSegmentInfo(profile.segment);
+
+  const stats = [
+    { label: 'Tổng chi tiêu', value: profile.totalRevenue.toLocaleString('vi-VN', { style: 'currency', currency: 'VND' }), highlight: true },
+    { label: 'Số lần mua', value: `${profile.orderCount} lần (${profile.totalOrders} sp)` },
+    { label: 'Trung bình / lần', value: `${Math.round(profile.averageBasket).toLocaleString('vi-VN')} đ` },
+    { label: 'Chu kỳ mua', value: profile.orderFrequencyDays === null ? '—' : `${Math.round(profile.orderFrequencyDays)} ngày / lần` },
+    { label: 'Mua lần đầu', value: formatDate(profile.firstOrderDate) },
+    { label: 'Mua gần nhất', value: `${formatDate(profile.lastOrderDate)} (${profile.recencyDays === 0 ? 'hôm nay' : `${profile.recencyDays} ngày trước`})` },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-100 flex justify-between items-start bg-gray-50/50 flex-shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold text-xl">
+              {profile.name.charAt(0).toUpperCase()}
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">{profile.name}</h3>
+              <span className={`inline-flex mt-1 px-2 py-0.5 rounded text-xs font-medium ${segment.color}`} title={segment.description}>
+                {segment.label}
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {profile.facebookLink && (
+              <a
+                href={profile.facebookLink}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-2 px-3 py-1.5 bg-[#1877F2] text-white rounded-lg text-sm font-medium hover:bg-[#166fe5] transition-colors shadow-sm"
+              >
+                <Facebook className="w-4 h-4" />
+                Facebook
+              </a>
+            )}
+            <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full transition-colors">
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {stats.map(s => (
+              <div key={s.label} className={`p-3 rounded-xl border ${s.highlight ? 'bg-blue-50 border-blue-100' : 'bg-gray-50 border-gray-100'}`}>
+                <p className={`text-xs uppercase tracking-wide ${s.highlight ? 'text-blue-600' : 'text-gray-500'}`}>{s.label}</p>
+                <p className={`text-sm font-bold mt-1 ${s.highlight ? 'text-blue-700' : 'text-gray-900'}`}>{s.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-4 text-sm">
+            <span className="text-gray-500">Điểm RFM:</span>
+            {RFM_LABELS.map(({ key, label }) => (
+              <span key={key} className="flex items-center gap-1.5">
+                <span className="text-gray-600">{label}</span>
+                <span className="flex gap-0.5">
+                  {[1, 2, 3, 4, 5].map(i => (
+                    <span key={i} className={`w-2 h-3 rounded-sm ${i <= profile.rfm[key] ? 'bg-blue-500' : 'bg-gray-200'}`} />
+                  ))}
+                </span>
+              </span>
+            ))}
+          </div>
+
+          <div className="border-t border-gray-100 pt-4">
+            <p className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+              <History className="w-4 h-4 text-gray-500" />
+              Lịch Sử Mua Hàng (toàn bộ thời gian)
+            </p>
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+              {profile.orders.map(order => (
+                <li key={order.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-200 border-2 border-white" />
+                  <div className="flex justify-between items-start gap-3 text-xs text-gray-500">
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {formatDate(order.date)} {formatTime(order.date)}
+                      {showSource && <span className="ml-1 px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">{order.sourceName}</span>}
+                    </span>
+                    <span className="font-bold text-blue-600 text-sm whitespace-nowrap">{order.amount.toLocaleString('vi-VN')} đ</span>
+                  </div>
+                  <p className="text-sm text-gray-800 mt-1">
+                    <span className="font-semibold text-gray-600">SL {order.quantity}</span>
+                    {' · '}
+                    {order.details || 'Không có ghi chú'}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, AlertCircle, Loader2 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { validateDataQuery } from '../services/dataQuery';
+import { executeDataQuery, QueryContext, QueryResult } from '../services/dataQueryExecutor';
+import { QuestionProvider } from '../services/dataQuestionService';
+
+interface ChatMessage {
+  id: number;
+  question: string;
+  status: 'loading' | 'done' | 'error';
+  result?: QueryResult;
+  error?: string;
+}
+
+const EXAMPLE_QUESTIONS = [
+  'Khách nào mua nhiều nhất tuần trước?',
+  'Doanh thu thứ 7 so với chủ nhật?',
+  'Bao nhiêu đơn tháng này?',
+  'Doanh thu theo khung giờ 30 ngày qua',
+];
+
+const formatValue = (value: number, isCurrency: boolean) => isCurrency
+  ? value.toLocaleString('vi-VN', { style: 'currency', currency: 'VND', maximumFractionDigits: 0 })
+  : value.toLocaleString('vi-VN', { maximumFractionDigits: 1 });
+
+const ResultView: React.FC<{ result: QueryResult }> = ({ result }) => {
+  const format = (value: number) => formatValue(value, result.isCurrency);
+
+  if (result.matchedOrders === 0) {
+    return <p className="text-sm text-gray-500">Không có đơn nào khớp điều kiện.</p>;
+  }
+  if (result.display === 'number' || result.rows.length === 0) {
+    return (
+      <div className="bg-violet-50 rounded-xl px-4 py-3">
+        <p className="text-xs text-violet-700">{result.metricLabel}</p>
+        <p className="text-2xl font-bold text-violet-900">{format(result.total)}</p>
+        <p className="text-xs text-violet-600 mt-0.5">{result.matchedOrders.toLocaleString('vi-VN')} đơn khớp điều kiện</p>
+      </div>
+    );
+  }
+  if (result.display === 'chart') {
+    return (
+      <div className="h-56 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={result.rows} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E5E7EB" />
+            <XAxis dataKey="label" stroke="#9CA3AF" fontSize={11} tickLine={false} axisLine={false} />
+            <YAxis
+              tickFormatter={(value: number) => value.toLocaleString('vi-VN', { notation: 'compact' })}
+              stroke="#9CA3AF" fontSize={11} tickLine={false} axisLine={false}
+            />
+            <Tooltip
+              formatter={(value: number) => [format(value), result.metricLabel]}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+            />
+            <Bar dataKey="value" fill="#8B5CF6" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+          <th className="py-1.5 pr-2 font-medium w-8">#</th>
+          <th className="py-1.5 pr-2 font-medium">{result.groupLabel}</th>
+          <th className="py-1.5 font-medium text-right">{result.metricLabel}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {result.rows.map((row, index) => (
+          <tr key={row.key} className="border-b border-gray-50 last:border-0">
+            <td className="py-1.5 pr-2 text-gray-400">{index + 1}</td>
+            <td className="py-1.5 pr-2 text-gray-800">{row.label}</td>
+            <td className="py-1.5 text-right font-medium text-gray-900">{format(row.value)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+interface DataChatProps {
+  context: QueryContext;
+  provider: QuestionProvider;
+}
+
+export const DataChat: React.FC<DataChatProps> = ({ context, provider }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const nextIdRef = useRef(1);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Truy vấn chạy trên dữ liệu tại thời điểm mô hình trả lời, không phải lúc gửi câu hỏi
+  const contextRef = useRef(context);
+  contextRef.current = context;
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const updateMessage = (id: number, patch: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, ...patch } : m));
+  };
+
+  const ask = async (question: string) => {
+    const text = question.trim();
+    if (!text) return;
+    const id = nextIdRef.current++;
+    setMessages(prev => [...prev, { id, question: text, status: 'loading' }]);
+    setInput('');
+
+    try {
+      const raw = await provider.translate(text, contextRef.current.today);
+      const parsed = validateDataQuery(raw);
+      if ('error' in parsed) {
+        updateMessage(id, { status: 'error', error: `Không hiểu được câu hỏi (${parsed.error})` });
+        return;
+      }
+      updateMessage(id, { status: 'done', result: executeDataQuery(parsed.query, contextRef.current) });
+    } catch (err) {
+      updateMessage(id, { status: 'error', error: err instanceof Error ? err.message : 'Không trả lời được câu hỏi' });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(input);
+  };
+
+  const isBusy = messages.some(m => m.status === 'loading');
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2 mb-4">
+        <MessageSquare className="w-5 h-5 text-violet-500" />
+        Hỏi Dữ Liệu
+        {provider.id !== 'gemini' && (
+          <span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-50 text-amber-700 border border-amber-100">{provider.label}</span>
+        )}
+      </h3>
+
+      {messages.length > 0 && (
+        <div ref={listRef} className="space-y-4 max-h-[28rem] overflow-y-auto mb-4 pr-1">
+          {messages.map(message => (
+            <div key={message.id} className="space-y-2">
+              <p className="ml-auto w-fit max-w-[85%] bg-violet-600 text-white text-sm px-3 py-2 rounded-2xl rounded-br-sm">
+                {message.question}
+              </p>
+              {message.status === 'loading' && (
+                <p className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Đang dịch câu hỏi...
+                </p>
+              )}
+              {message.status === 'error' && (
+                <p className="flex items-center gap-2 text-sm text-red-600 bg-red-50 px-3 py-2 rounded-lg">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {message.error}
+                </p>
+              )}
+              {message.result && (
+                <div className="border border-gray-100 rounded-xl p-3 space-y-2">
+                  {/* Hiện cách hiểu câu hỏi để người dùng kiểm tra lại */}
+                  <p className="text-xs text-gray-500">
+                    {message.result.metricLabel} · {message.result.groupLabel} · {message.result.rangeLabel}
+                    {message.result.query.weekdays && ` · ${message.result.query.weekdays.map(d => d === 0 ? 'CN' : `T${d + 1}`).join(', ')}`}
+                    {message.result.query.customer && ` · Khách "${message.result.query.customer}"`}
+                    {message.result.query.text && ` · Nội dung "${message.result.query.text}"`}
+                  </p>
+                  <ResultView result={message.result} />
+                  {message.result.display !== 'number' && message.result.groupCount > message.result.rows.length && (
+                    <p className="text-xs text-amber-600">
+                      Chỉ hiện {message.result.rows.length}/{message.result.groupCount} nhóm
+                      {message.result.keptLatest ? ' gần nhất' : ' đầu tiên'}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {EXAMPLE_QUESTIONS.map(question => (
+            <button
+              key={question}
+              onClick={() => ask(question)}
+              className="px-3 py-1.5 text-xs text-violet-700 bg-violet-50 rounded-full hover:bg-violet-100"
+            >
+              {question}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Hỏi về doanh thu, khách hàng, sản phẩm..."
+          maxLength={500}
+          className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-200"
+        />
+        <button
+          type="submit"
+          disabled={isBusy || !input.trim()}
+          className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-white bg-violet-600 rounded-lg hover:bg-violet-700 disabled:opacity-50"
+        >
+          <Send className="w-4 h-4" />
+          Hỏi
+        </button>
+      </form>
+      <p className="text-xs text-gray-400 mt-2">Chỉ câu hỏi được gửi đi; số liệu được tính ngay trên trình duyệt từ các đơn hợp lệ.</p>
+    </div>
+  );
+};
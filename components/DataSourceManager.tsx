@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Database, ChevronDown, Check, Settings, X, Pencil, Trash2, Plus, Columns, Clock } from 'lucide-react';
+import { DataSource, DataSourceType } from '../types';
+import { SOURCE_TYPE_LABELS, createSourceId, validateSource } from '../services/sourceService';
+
+interface SourceSwitcherProps {
+  sources: DataSource[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  onManage: () => void;
+}
+
+export const SourceSwitcher: React.FC<SourceSwitcherProps> = ({ sources, selectedIds, onChange, onManage }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const selected = sources.filter(s => selectedIds.includes(s.id));
+  const label = selected.length === 1
+    ? selected[0].name
+    : selected.length === sources.length
+      ? `Tất cả nguồn (${sources.length})`
+      : `${selected.length} nguồn (gộp)`;
+
+  const toggle = (id: string) => {
+    if (selectedIds.includes(id)) {
+      // Luôn giữ ít nhất một nguồn được chọn
+      if (selectedIds.length > 1) onChange(selectedIds.filter(x => x !== id));
+    } else {
+      onChange([...selectedIds, id]);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors"
+      >
+        <Database className="w-4 h-4 text-blue-600" />
+        <span className="font-medium max-w-[200px] truncate">{label}</span>
+        <ChevronDown className="w-4 h-4 text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-100 z-40 p-2">
+          <p className="px-2 py-1 text-xs font-semibold text-gray-400 uppercase">Nguồn dữ liệu</p>
+          {sources.map(source => (
+            <div key={source.id} className="flex items-center gap-1">
+              <button
+                onClick={() => toggle(source.id)}
+                className="flex-1 flex items-center gap-2 px-2 py-2 rounded-lg hover:bg-gray-50 text-left"
+              >
+                <span className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 ${
+                  selectedIds.includes(source.id) ? 'bg-blue-600 border-blue-600' : 'border-gray-300'
+                }`}>
+                  {selectedIds.includes(source.id) && <Check className="w-3 h-3 text-white" />}
+                </span>
+                <span className="text-sm text-gray-800 truncate">{source.name}</span>
+              </button>
+              <button
+                onClick={() => { onChange([source.id]); setOpen(false); }}
+                className="px-2 py-1 text-xs text-gray-400 hover:text-blue-600"
+                title="Chỉ xem nguồn này"
+              >
+                Chỉ
+              </button>
+            </div>
+          ))}
+          <div className="border-t border-gray-100 mt-2 pt-2 flex gap-2">
+            {sources.length > 1 && (
+              <button
+                onClick={() => onChange(sources.map(s => s.id))}
+                className="flex-1 px-2 py-1.5 text-xs font-medium text-gray-600 rounded-lg hover:bg-gray-50"
+              >
+                Gộp tất cả
+              </button>
+            )}
+            <button
+              onClick={() => { setOpen(false); onManage(); }}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 text-xs font-medium text-blue-600 rounded-lg hover:bg-blue-50"
+            >
+              <Settings className="w-3.5 h-3.5" />
+              Quản lý nguồn
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface DataSourceManagerProps {
+  sources: DataSource[];
+  onChange: (sources: DataSource[]) => void;
+  onEditMapping: (source: DataSource) => void;
+  timeZone: string;
+  onTimeZoneChange: (timeZone: string) => void;
+  onClose: () => void;
+}
+
+const EMPTY_FORM = { name: '', url: '', type: 'google_sheet' as DataSourceType };
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+export const DataSourceManager: React.FC<DataSourceManagerProps> = ({ sources, onChange, onEditMapping, timeZone, onTimeZoneChange, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+
+  const startEdit = (source: DataSource) => {
+    setEditingId(source.id);
+    setForm({ name: source.name, url: source.url, type: source.type });
+    setFormError('');
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validateSource(form);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    const value = { name: form.name.trim(), url: form.url.trim(), type: form.type };
+    if (editingId) {
+      onChange(sources.map(s => s.id === editingId ? { ...s, ...value } : s));
+    } else {
+      onChange([...sources, { id: createSourceId(), ...value }]);
+    }
+    resetForm();
+  };
+
+  const handleRemove = (source: DataSource) => {
+    if (sources.length <= 1) return;
+    if (!window.confirm(`Xóa nguồn "${source.name}"?`)) return;
+    onChange(sources.filter(s => s.id !== source.id));
+    if (editingId === source.id) resetForm();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-100 flex justify-between items-start bg-gray-50/50 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">Nguồn Dữ Liệu</h3>
+            <p className="text-sm text-gray-500 mt-1">Thêm, sửa hoặc xóa các Google Sheet / file CSV</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="space-y-2">
+            {sources.map(source => (
+              <div key={source.id} className={`flex items-center gap-3 p-3 rounded-xl border ${editingId === source.id ? 'border-blue-300 bg-blue-50/50' : 'border-gray-200'}`}>
+                <Database className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 truncate">{source.name}</p>
+                  <p className="text-xs text-gray-400 truncate">{SOURCE_TYPE_LABELS[source.type]} · {source.url}</p>
+                </div>
+                <button
+                  onClick={() => onEditMapping(source)}
+                  className={`p-1.5 rounded-lg hover:bg-gray-100 ${source.columnMapping && Object.keys(source.columnMapping).length > 0 ? 'text-blue-600' : 'text-gray-400 hover:text-blue-600'}`}
+                  title="Ghép cột"
+                >
+                  <Columns className="w-4 h-4" />
+                </button>
+                <button onClick={() => startEdit(source)} className="p-1.5 text-gray-400 hover:text-blue-600 rounded-lg hover:bg-gray-100" title="Sửa">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleRemove(source)}
+                  disabled={sources.length <= 1}
+                  className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:hover:text-gray-400"
+                  title="Xóa"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="border-t border-gray-100 pt-4 space-y-3">
+            <p className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+              {editingId ? <Pencil className="w-4 h-4 text-gray-500" /> : <Plus className="w-4 h-4 text-gray-500" />}
+              {editingId ? 'Sửa nguồn' : 'Thêm nguồn mới'}
+            </p>
+            <input
+              type="text"
+              placeholder="Tên nguồn (VD: Shop livestream 2)"
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+            <input
+              type="url"
+              placeholder="https://docs.google.com/spreadsheets/..."
+              value={form.url}
+              onChange={e => setForm({ ...form, url: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+            <select
+              value={form.type}
+              onChange={e => setForm({ ...form, type: e.target.value as DataSourceType })}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-100"
+            >
+              {(Object.keys(SOURCE_TYPE_LABELS) as DataSourceType[]).map(type => (
+                <option key={type} value={type}>{SOURCE_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            {formError && <p className="text-xs text-red-600">{formError}</p>}
+            <div className="flex gap-2 justify-end">
+              {editingId && (
+                <button type="button" onClick={resetForm} className="px-4 py-2 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50">
+                  Hủy
+                </button>
+              )}
+              <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+                {editingId ? 'Lưu thay đổi' : 'Thêm nguồn'}
+              </button>
+            </div>
+          </form>
+
+          <div className="border-t border-gray-100 pt-4 space-y-2">
+            <p className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+              <Clock className="w-4 h-4 text-gray-500" />
+              Múi giờ kinh doanh
+            </p>
+            <p className="text-xs text-gray-500">Giờ trong Sheet, lọc theo ngày và biểu đồ đều tính theo múi giờ này.</p>
+            <select
+              value={timeZone}
+              onChange={e => onTimeZoneChange(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-100"
+            >
+              {(TIME_ZONES.includes(timeZone) ? TIME_ZONES : [timeZone, ...TIME_ZONES]).map(tz => (
+                <option key={tz} value={tz}>{tz}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
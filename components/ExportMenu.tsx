@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { Order, DailyStat, OrderTracking } from '../types';
+import {
+  ExportTable, buildOrdersTable, buildGroupedTable, buildDailyStatsTable, toCsv, toXlsx, downloadBlob
+} from '../services/exportService';
+
+interface ExportMenuProps {
+  orders: Order[]; // Đơn đã lọc theo ngày
+  groupedOrders: Order[];
+  dailyStats: DailyStat[];
+  orderTracking: Record<string, OrderTracking>;
+  startDate: string;
+  endDate: string;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ orders, groupedOrders, dailyStats, orderTracking, startDate, endDate }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // VD: don-hang_2026-10-01_2026-10-19
+  const period = startDate || endDate ? `_${startDate || 'dau'}_${endDate || 'nay'}` : '_tat-ca';
+
+  const datasets: { id: string; label: string; fileName: string; build: () => ExportTable }[] = [
+    { id: 'orders', label: `Đơn hàng đã lọc (${orders.length})`, fileName: 'don-hang', build: () => buildOrdersTable(orders, orderTracking) },
+    { id: 'grouped', label: `Gộp theo khách (${groupedOrders.length})`, fileName: 'don-hang-theo-khach', build: () => buildGroupedTable(groupedOrders) },
+    { id: 'daily', label: `Thống kê theo ngày (${dailyStats.length})`, fileName: 'thong-ke-theo-ngay', build: () => buildDailyStatsTable(dailyStats) },
+  ];
+
+  const handleExport = (dataset: typeof datasets[number], format: 'csv' | 'xlsx') => {
+    const table = dataset.build();
+    const blob = format === 'csv' ? toCsv(table) : toXlsx([table]);
+    downloadBlob(blob, `${dataset.fileName}${period}.${format}`);
+    setOpen(false);
+  };
+
+  // Một file Excel gồm cả ba bảng, mỗi bảng một sheet
+  const handleExportAll = () => {
+    downloadBlob(toXlsx(datasets.map(d => d.build())), `bao-cao${period}.xlsx`);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-1.5 text-sm text-gray-600 bg-gray-50 hover:bg-gray-100 border border-gray-200 px-3 py-1 rounded-full font-medium"
+      >
+        <Download className="w-4 h-4" />
+        Xuất dữ liệu
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-100 z-40 p-2">
+          {datasets.map(d => (
+            <div key={d.id} className="flex items-center gap-1 px-2 py-1.5">
+              <span className="flex-1 text-sm text-gray-800 truncate">{d.label}</span>
+              <button
+                onClick={() => handleExport(d, 'csv')}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 rounded hover:bg-gray-100"
+                title="CSV (UTF-8)"
+              >
+                <FileText className="w-3.5 h-3.5" />
+                CSV
+              </button>
+              <button
+                onClick={() => handleExport(d, 'xlsx')}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-green-700 rounded hover:bg-green-50"
+                title="Excel (.xlsx)"
+              >
+                <FileSpreadsheet className="w-3.5 h-3.5" />
+                Excel
+              </button>
+            </div>
+          ))}
+          <div className="border-t border-gray-100 mt-1 pt-1">
+            <button
+              onClick={handleExportAll}
+              className="w-full flex items-center justify-center gap-1 px-2 py-1.5 text-xs font-medium text-green-700 rounded-lg hover:bg-green-50"
+            >
+              <FileSpreadsheet className="w-3.5 h-3.5" />
+              Tất cả trong một file Excel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
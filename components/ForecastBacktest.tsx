@@ -0,0 +1,67 @@
+import React from 'react';
+import { BacktestSummary, MonthForecast, forecastErrorPercent, FORECAST_CONFIDENCE } from '../services/forecastService';
+
+const formatVnd = (value: number) => value.toLocaleString('vi-VN', { style: 'currency', currency: 'VND', maximumFractionDigits: 0 });
+const formatPercent = (value: number) => `${value.toLocaleString('vi-VN', { maximumFractionDigits: 1 })}%`;
+
+const ForecastCell: React.FC<{ forecast: MonthForecast | null; actual: number }> = ({ forecast, actual }) => {
+  if (!forecast) return <td className="py-2 px-2 text-right text-gray-400">Chưa đủ dữ liệu</td>;
+  const error = forecastErrorPercent(forecast, actual);
+  const inBand = actual >= forecast.low && actual <= forecast.high;
+  return (
+    <td className="py-2 px-2 text-right">
+      <div className="text-gray-800">{formatVnd(forecast.expected)}</div>
+      <div className={`text-xs ${inBand ? 'text-gray-400' : 'text-amber-600'}`}>
+        {error === null ? '—' : `${error > 0 ? '+' : ''}${formatPercent(error)}`}
+        {!inBand && ' · ngoài khoảng'}
+      </div>
+    </td>
+  );
+};
+
+// Kiểm tra lại dự báo trên các tháng đã qua: lập dự báo như thể đang ở đầu tháng / giữa tháng rồi so với thực tế
+export const ForecastBacktest: React.FC<{ summary: BacktestSummary }> = ({ summary }) => {
+  if (summary.months.length === 0) {
+    return <p className="text-sm text-gray-500">Chưa có tháng nào đủ dữ liệu (cần ít nhất 2 tuần lịch sử trước tháng) để kiểm tra dự báo.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <p className="text-gray-600">
+          Sai số TB dự báo đầu tháng: <span className="font-semibold text-gray-900">{summary.startError === null ? '—' : formatPercent(summary.startError)}</span>
+        </p>
+        <p className="text-gray-600">
+          Từ giữa tháng: <span className="font-semibold text-gray-900">{summary.midError === null ? '—' : formatPercent(summary.midError)}</span>
+        </p>
+        {summary.coverage !== null && (
+          <p className="text-gray-600">
+            Thực tế nằm trong khoảng {FORECAST_CONFIDENCE}%: <span className="font-semibold text-gray-900">{formatPercent(summary.coverage)}</span> số lần
+          </p>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 border-b border-gray-100">
+              <th className="py-2 px-2 text-left font-medium">Tháng</th>
+              <th className="py-2 px-2 text-right font-medium">Thực tế</th>
+              <th className="py-2 px-2 text-right font-medium">Dự báo ngày 1</th>
+              <th className="py-2 px-2 text-right font-medium">Dự báo ngày 15</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.months.map(m => (
+              <tr key={m.month} className="border-b border-gray-50 last:border-0">
+                <td className="py-2 px-2 text-gray-800">T{Number(m.month.slice(5))}/{m.month.slice(0, 4)}</td>
+                <td className="py-2 px-2 text-right font-medium text-gray-900">{formatVnd(m.actual)}</td>
+                <ForecastCell forecast={m.fromStart} actual={m.actual} />
+                <ForecastCell forecast={m.fromMid} actual={m.actual} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
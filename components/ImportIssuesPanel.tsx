@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Order } from '../types';
+import { ORDER_FIELDS } from '../services/dataService';
+
+interface ImportIssuesPanelProps {
+  orders: Order[];
+  excludeFlagged: boolean;
+  onExcludeFlaggedChange: (value: boolean) => void;
+  showSource?: boolean;
+}
+
+const MAX_VISIBLE_ISSUES = 200;
+
+const FIELD_LABELS = Object.fromEntries(ORDER_FIELDS.map(f => [f.field, f.label]));
+
+export const ImportIssuesPanel: React.FC<ImportIssuesPanelProps> = ({ orders, excludeFlagged, onExcludeFlaggedChange, showSource = false }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const flaggedOrders = useMemo(() => orders.filter(o => o.warnings.length > 0), [orders]);
+  const issues = useMemo(
+    () => flaggedOrders.flatMap(o => o.warnings.map(w => ({ ...w, sourceName: o.sourceName }))),
+    [flaggedOrders]
+  );
+
+  // Các dòng trùng mã đơn / trùng nội dung với một dòng phía trên
+  const duplicates = useMemo(() => {
+    const byId = new Map(orders.map(o => [o.id, o]));
+    return orders
+      .filter(o => o.duplicateOf)
+      .map(o => ({ order: o, original: byId.get(o.duplicateOf!) }));
+  }, [orders]);
+
+  if (issues.length === 0 && duplicates.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-amber-200 overflow-hidden">
+      <div className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3 bg-amber-50/60">
+        <button onClick={() => setExpanded(e => !e)} className="flex items-center gap-3 text-left">
+          <AlertTriangle className="w-5 h-5 text-amber-500 flex-shrink-0" />
+          <div>
+            <p className="text-sm font-bold text-gray-900">Lỗi Nhập Dữ Liệu</p>
+            <p className="text-xs text-gray-600">
+              {issues.length > 0 && `${flaggedOrders.length} dòng có ${issues.length} ô trống hoặc không hợp lệ đã được thay giá trị mặc định`}
+              {issues.length > 0 && duplicates.length > 0 && ' · '}
+              {duplicates.length > 0 && `${duplicates.length} dòng trùng lặp`}
+            </p>
+          </div>
+          {expanded ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+        </button>
+        {issues.length > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={excludeFlagged}
+              onChange={e => onExcludeFlaggedChange(e.target.checked)}
+              className="rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+            />
+            Loại các dòng lỗi khỏi thống kê
+          </label>
+        )}
+      </div>
+
+      {expanded && duplicates.length > 0 && (
+        <div className="px-4 py-3 border-b border-gray-100 space-y-1 max-h-48 overflow-y-auto">
+          <p className="text-xs font-semibold text-gray-500 uppercase">Dòng trùng lặp (vẫn được tính vào thống kê)</p>
+          {duplicates.slice(0, MAX_VISIBLE_ISSUES).map(({ order, original }) => (
+            <p key={order.id} className="text-sm text-gray-700">
+              {showSource && <span className="text-gray-400">{order.sourceName} · </span>}
+              Dòng <span className="font-medium">{order.rowNumber}</span> trùng với dòng{' '}
+              <span className="font-medium">{original?.rowNumber ?? '?'}</span>
+              <span className="text-gray-400"> — {order.customerName}, {order.amount.toLocaleString('vi-VN')} đ</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {expanded && issues.length > 0 && (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-gray-500 uppercase bg-gray-50/50 sticky top-0">
+              <tr>
+                {showSource && <th className="px-4 py-3 font-semibold whitespace-nowrap">Nguồn</th>}
+                <th className="px-4 py-3 font-semibold whitespace-nowrap">Dòng</th>
+                <th className="px-4 py-3 font-semibold whitespace-nowrap">Cột</th>
+                <th className="px-4 py-3 font-semibold whitespace-nowrap">Giá Trị Gốc</th>
+                <th className="px-4 py-3 font-semibold whitespace-nowrap">Đã Xử Lý</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, idx) => (
+                <tr key={idx} className="hover:bg-amber-50/40">
+                  {showSource && <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{issue.sourceName}</td>}
+                  <td className="px-4 py-2 font-medium text-gray-900">{issue.rowNumber}</td>
+                  <td className="px-4 py-2 text-gray-700 whitespace-nowrap">
+                    {issue.column || <span className="italic text-gray-400">không có cột</span>}
+                    {issue.field && <span className="text-xs text-gray-400 ml-1">({FIELD_LABELS[issue.field]})</span>}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600 max-w-xs truncate" title={issue.rawValue}>
+                    {issue.rawValue || <span className="italic text-gray-400">(trống)</span>}
+                  </td>
+                  <td className="px-4 py-2 text-amber-700">{issue.assumed}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {issues.length > MAX_VISIBLE_ISSUES && (
+            <p className="px-4 py-3 text-xs text-gray-500 text-center">
+              Đang hiển thị {MAX_VISIBLE_ISSUES}/{issues.length} lỗi đầu tiên
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
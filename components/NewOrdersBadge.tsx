@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, BellRing, X } from 'lucide-react';
+import { NotificationSettings, isBrowserNotificationSupported, requestNotificationPermission } from '../services/notificationService';
+
+interface NewOrdersBadgeProps {
+  count: number;
+  onDismiss: () => void;
+  settings: NotificationSettings;
+  onSettingsChange: (settings: NotificationSettings) => void;
+}
+
+export const NewOrdersBadge: React.FC<NewOrdersBadgeProps> = ({ count, onDismiss, settings, onSettingsChange }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const toggleBrowser = async () => {
+    if (settings.browser) {
+      onSettingsChange({ ...settings, browser: false });
+      return;
+    }
+    const granted = await requestNotificationPermission();
+    if (!granted) {
+      window.alert('Trình duyệt chưa cho phép hiển thị thông báo.');
+      return;
+    }
+    onSettingsChange({ ...settings, browser: true });
+  };
+
+  const hasAlerts = settings.sound || settings.browser;
+
+  return (
+    <div className="flex items-center gap-2">
+      {count > 0 && (
+        <span className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-700 border border-green-200 animate-pulse">
+          +{count} đơn mới
+          <button onClick={onDismiss} className="p-0.5 rounded-full hover:bg-green-200" title="Đã xem">
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      )}
+      <div className="relative" ref={containerRef}>
+        <button
+          onClick={() => setOpen(o => !o)}
+          className={`p-1.5 rounded-lg border border-gray-200 hover:bg-gray-100 ${hasAlerts ? 'text-blue-600' : 'text-gray-400'}`}
+          title="Thông báo đơn mới"
+        >
+          {hasAlerts ? <BellRing className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+        </button>
+        {open && (
+          <div className="absolute left-0 mt-2 w-64 bg-white rounded-xl shadow-lg border border-gray-100 z-40 p-3 space-y-2">
+            <p className="text-xs font-semibold text-gray-400 uppercase">Khi có đơn mới</p>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.sound}
+                onChange={e => onSettingsChange({ ...settings, sound: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Phát âm báo
+            </label>
+            <label className={`flex items-center gap-2 text-sm cursor-pointer ${isBrowserNotificationSupported() ? 'text-gray-700' : 'text-gray-300'}`}>
+              <input
+                type="checkbox"
+                checked={settings.browser}
+                disabled={!isBrowserNotificationSupported()}
+                onChange={toggleBrowser}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Thông báo trình duyệt
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
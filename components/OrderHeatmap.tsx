@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { Order } from '../types';
+import { HeatmapCell, buildOrderHeatmap } from '../services/statsService';
+
+interface OrderHeatmapProps {
+  orders: Order[];
+}
+
+type HeatmapMetric = 'orderCount' | 'revenue';
+
+const WEEKDAY_LABELS = ['T2', 'T3', 'T4', 'T5', 'T6', 'T7', 'CN'];
+const WEEKDAY_NAMES = ['Thứ 2', 'Thứ 3', 'Thứ 4', 'Thứ 5', 'Thứ 6', 'Thứ 7', 'Chủ nhật'];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const describeSlot = (day: number, hour: number) => `${WEEKDAY_NAMES[day]}, ${hour}:00 – ${hour}:59`;
+
+const describeCell = (cell: HeatmapCell) =>
+  `${cell.orderCount} đơn (${cell.quantity} sp) · ${cell.revenue.toLocaleString('vi-VN', { style: 'currency', currency: 'VND' })}`;
+
+export const OrderHeatmap: React.FC<OrderHeatmapProps> = ({ orders }) => {
+  const [metric, setMetric] = useState<HeatmapMetric>('orderCount');
+  const [hovered, setHovered] = useState<{ day: number; hour: number } | null>(null);
+
+  const { cells, untimedCount } = useMemo(() => buildOrderHeatmap(orders), [orders]);
+
+  const { max, best } = useMemo(() => {
+    let max = 0;
+    let best: { day: number; hour: number } | null = null;
+    for (let day = 0; day < cells.length; day++) {
+      for (let hour = 0; hour < cells[day].length; hour++) {
+        if (cells[day][hour][metric] > max) {
+          max = cells[day][hour][metric];
+          best = { day, hour };
+        }
+      }
+    }
+    return { max, best };
+  }, [cells, metric]);
+
+  const focus = hovered || best;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Clock className="w-5 h-5 text-indigo-500" />
+          Khung Giờ Bán Hàng
+        </h3>
+        <div className="flex bg-gray-100 p-0.5 rounded-lg">
+          {([['orderCount', 'Số đơn'], ['revenue', 'Doanh thu']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setMetric(id)}
+              className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-all ${metric === id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-3 h-5 truncate">
+        {focus ? (
+          <>
+            <span className="font-semibold text-gray-900">{hovered ? describeSlot(focus.day, focus.hour) : `Bán chạy nhất: ${describeSlot(focus.day, focus.hour)}`}</span>
+            {' — '}
+            {describeCell(cells[focus.day][focus.hour])}
+          </>
+        ) : (
+          <span className="text-gray-400">Chưa có đơn nào có giờ đặt trong khoảng này.</span>
+        )}
+      </p>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[560px] grid gap-0.5" style={{ gridTemplateColumns: '2rem repeat(24, minmax(0, 1fr))' }} onMouseLeave={() => setHovered(null)}>
+          <div />
+          {HOURS.map(hour => (
+            <div key={hour} className="text-[10px] text-gray-400 text-center">{hour % 3 === 0 ? hour : ''}</div>
+          ))}
+          {cells.map((row, day) => (
+            <React.Fragment key={day}>
+              <div className="text-xs text-gray-500 flex items-center">{WEEKDAY_LABELS[day]}</div>
+              {row.map((cell, hour) => {
+                const intensity = max > 0 ? cell[metric] / max : 0;
+                const isFocused = focus?.day === day && focus?.hour === hour;
+                return (
+                  <div
+                    key={hour}
+                    onMouseEnter={() => setHovered({ day, hour })}
+                    title={`${describeSlot(day, hour)}: ${describeCell(cell)}`}
+                    className={`h-6 rounded-sm cursor-default ${isFocused ? 'ring-2 ring-blue-600' : ''}`}
+                    style={{ backgroundColor: cell[metric] > 0 ? `rgba(59, 130, 246, ${0.12 + intensity * 0.88})` : '#F3F4F6' }}
+                  />
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      {untimedCount > 0 && (
+        <p className="text-xs text-gray-400 mt-3">{untimedCount} đơn chỉ có ngày, không có giờ đặt — không tính vào bản đồ.</p>
+      )}
+    </div>
+  );
+};
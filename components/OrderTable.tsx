@@ -0,0 +1,373 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Search, Clock, Facebook, ChevronLeft, ChevronRight, SlidersHorizontal, X } from 'lucide-react';
+import { Order, OrderTracking } from '../types';
+import { OrderStatusBadge } from './OrderTracking';
+import { getOrderTracking } from '../services/orderTrackingService';
+import { ChangeMark, RemovedMark } from '../services/orderDiff';
+import {
+  OrderTableMode, OrderSortKey, OrderTableFilters, EMPTY_ORDER_FILTERS, hasActiveFilters, buildSearchIndex, queryOrders
+} from '../services/orderTable';
+import { loadFromStorage, saveToStorage } from '../services/storage';
+import { formatDate, formatTime } from '../services/dateUtils';
+
+interface OrderTableProps {
+  groupedOrders: Order[];
+  rawOrders: Order[];
+  removedOrders: RemovedMark[]; // Đơn vừa bị xóa khỏi Sheet, hiển thị gạch ngang ở đầu trang 1
+  changeMarks: Record<string, ChangeMark>;
+  orderTracking: Record<string, OrderTracking>;
+  customerKeyByOrderId: Map<string, string>;
+  showSource: boolean;
+  onSelectCustomer: (customerKey: string) => void;
+}
+
+interface OrderTableSettings {
+  mode: OrderTableMode;
+  sortKey: OrderSortKey;
+  sortDesc: boolean;
+  pageSize: number;
+}
+
+const SETTINGS_KEY = 'orderTableSettings';
+
+const PAGE_SIZES = [25, 50, 100, 200];
+
+// Cột "Chi tiết" không sắp xếp được (sortKey = null)
+const COLUMNS: { sortKey: OrderSortKey | null; label: (mode: OrderTableMode) => string; align?: 'right' | 'center'; groupedOnly?: boolean }[] = [
+  { sortKey: 'date', label: mode => mode === 'grouped' ? 'Đơn Mới Nhất' : 'Ngày Giờ' },
+  { sortKey: 'customerName', label: () => 'Tên Khách' },
+  { sortKey: 'subOrderCount', label: () => 'Số Đơn', align: 'center', groupedOnly: true },
+  { sortKey: 'quantity', label: mode => mode === 'grouped' ? 'Tổng SL' : 'SL', align: 'center' },
+  { sortKey: null, label: mode => mode === 'grouped' ? 'Chi Tiết (Gộp)' : 'Chi Tiết' },
+  { sortKey: 'amount', label: mode => mode === 'grouped' ? 'Tổng Tiền' : 'Thành Tiền', align: 'right' },
+];
+
+// Dòng gộp được highlight nếu có ít nhất một đơn con mới (ưu tiên) hoặc vừa sửa
+const getRowChange = (row: Order, changeMarks: Record<string, ChangeMark>) => {
+  const marks = (row.subOrders || [row]).map(o => changeMarks[o.id]?.type);
+  if (marks.includes('added')) return 'added';
+  if (marks.includes('changed')) return 'changed';
+  return null;
+};
+
+const parseBound = (value: string) => value.trim() === '' || isNaN(Number(value)) ? null : Number(value);
+
+const RangeInput: React.FC<{
+  label: string;
+  min: number | null;
+  max: number | null;
+  onChange: (min: number | null, max: number | null) => void;
+}> = ({ label, min, max, onChange }) => (
+  <div className="flex items-center gap-1.5 text-xs text-gray-500">
+    <span className="whitespace-nowrap">{label}</span>
+    <input
+      type="number"
+      min={0}
+      placeholder="Từ"
+      value={min ?? ''}
+      onChange={e => onChange(parseBound(e.target.value), max)}
+      className="w-24 px-2 py-1 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+    />
+    <span>-</span>
+    <input
+      type="number"
+      min={0}
+      placeholder="Đến"
+      value={max ?? ''}
+      onChange={e => onChange(min, parseBound(e.target.value))}
+      className="w-24 px-2 py-1 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+    />
+  </div>
+);
+
+export const OrderTable: React.FC<OrderTableProps> = ({
+  groupedOrders, rawOrders, removedOrders, changeMarks, orderTracking, customerKeyByOrderId, showSource, onSelectCustomer
+}) => {
+  const [settings, setSettings] = useState<OrderTableSettings>(() => ({
+    mode: 'grouped',
+    sortKey: 'amount',
+    sortDesc: true,
+    pageSize: 50,
+    ...loadFromStorage<Partial<OrderTableSettings>>(SETTINGS_KEY, {})
+  }));
+  const [filters, setFilters] = useState<OrderTableFilters>(EMPTY_ORDER_FILTERS);
+  const [showRangeFilters, setShowRangeFilters] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const updateSettings = (patch: Partial<OrderTableSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveToStorage(SETTINGS_KEY, next);
+    setPage(0);
+  };
+
+  const updateFilters = (patch: Partial<OrderTableFilters>) => {
+    setFilters(f => ({ ...f, ...patch }));
+    setPage(0);
+  };
+
+  const { mode, sortKey, sortDesc, pageSize } = settings;
+  const sourceRows = mode === 'grouped' ? groupedOrders : rawOrders;
+  const columns = COLUMNS.filter(c => mode === 'grouped' || !c.groupedOnly);
+
+  // Lọc trên giá trị hoãn để ô tìm kiếm không bị giật khi danh sách lớn
+  const deferredFilters = useDeferredValue(filters);
+  const searchIndex = useMemo(() => buildSearchIndex(sourceRows), [sourceRows]);
+  const rows = useMemo(
+    () => queryOrders(sourceRows, searchIndex, deferredFilters, sortKey, sortDesc),
+    [sourceRows, searchIndex, deferredFilters, sortKey, sortDesc]
+  );
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+  const isFiltering = hasActiveFilters(filters);
+
+  const handleSort = (key: OrderSortKey) => {
+    if (key === sortKey) {
+      updateSettings({ sortDesc: !sortDesc });
+    } else {
+      updateSettings({ sortKey: key, sortDesc: key !== 'customerName' });
+    }
+  };
+
+  const handleModeChange = (next: OrderTableMode) => {
+    // Cột "Số đơn" chỉ có ở chế độ gộp
+    updateSettings({ mode: next, ...(next === 'raw' && sortKey === 'subOrderCount' ? { sortKey: 'amount' } : {}) });
+  };
+
+  const handleRowClick = (row: Order) => {
+    const key = row.customerKey || customerKeyByOrderId.get(row.id);
+    if (key) onSelectCustomer(key);
+  };
+
+  return (
+    <div>
+      <div className="px-6 py-4 border-b border-gray-100 space-y-3">
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <div className="flex bg-gray-100 p-0.5 rounded-lg w-fit">
+            {([['grouped', 'Gộp theo khách'], ['raw', 'Từng đơn']] as const).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => handleModeChange(id)}
+                className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-all whitespace-nowrap ${mode === id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 bg-gray-50 px-3 py-1.5 rounded-lg border border-gray-200 flex-1 md:max-w-sm">
+            <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <input
+              type="text"
+              value={filters.query}
+              onChange={e => updateFilters({ query: e.target.value })}
+              placeholder="Tìm theo tên khách, nội dung đơn..."
+              className="bg-transparent border-none text-sm focus:ring-0 focus:outline-none p-0 w-full"
+            />
+          </div>
+          <button
+            onClick={() => setShowRangeFilters(v => !v)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border ${
+              showRangeFilters ? 'border-blue-200 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+            Lọc số tiền / SL
+          </button>
+          {isFiltering && (
+            <button
+              onClick={() => updateFilters(EMPTY_ORDER_FILTERS)}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              <X className="w-3.5 h-3.5" />
+              Xóa bộ lọc
+            </button>
+          )}
+        </div>
+        {showRangeFilters && (
+          <div className="flex flex-wrap items-center gap-4">
+            <RangeInput
+              label="Số tiền (đ)"
+              min={filters.minAmount}
+              max={filters.maxAmount}
+              onChange={(minAmount, maxAmount) => updateFilters({ minAmount, maxAmount })}
+            />
+            <RangeInput
+              label="Số lượng"
+              min={filters.minQuantity}
+              max={filters.maxQuantity}
+              onChange={(minQuantity, maxQuantity) => updateFilters({ minQuantity, maxQuantity })}
+            />
+            <span className="text-xs text-gray-400">
+              {mode === 'grouped' ? 'Áp dụng cho tổng của mỗi khách' : 'Áp dụng cho từng đơn'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-gray-500 uppercase bg-gray-50/50">
+            <tr>
+              {columns.map(col => (
+                <th
+                  key={col.label(mode)}
+                  onClick={col.sortKey ? () => handleSort(col.sortKey!) : undefined}
+                  className={`px-6 py-4 font-semibold whitespace-nowrap ${col.sortKey ? 'cursor-pointer select-none hover:text-gray-700' : ''} ${
+                    col.align === 'right' ? 'text-right' : col.align === 'center' ? 'text-center' : ''
+                  }`}
+                >
+                  {col.label(mode)}
+                  {col.sortKey && sortKey === col.sortKey && (sortDesc
+                    ? <ArrowDown className="w-3 h-3 inline ml-1" />
+                    : <ArrowUp className="w-3 h-3 inline ml-1" />)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {currentPage === 0 && !isFiltering && removedOrders.map(({ order }) => (
+              <tr key={`removed-${order.id}`} className="bg-red-50/60 text-gray-400 line-through">
+                <td className="px-6 py-3 whitespace-nowrap">{formatDate(order.date)} {formatTime(order.date)}</td>
+                <td className="px-6 py-3">
+                  {order.customerName}
+                  <span className="ml-2 inline-flex px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">Đã xóa</span>
+                </td>
+                {mode === 'grouped' && <td className="px-6 py-3 text-center">1</td>}
+                <td className="px-6 py-3 text-center">{order.quantity}</td>
+                <td className="px-6 py-3 max-w-xs truncate">{order.details}</td>
+                <td className="px-6 py-3 text-right whitespace-nowrap">
+                  {order.amount.toLocaleString('vi-VN', { style: 'currency', currency: 'VND' })}
+                </td>
+              </tr>
+            ))}
+            {pageRows.map(row => {
+              const change = getRowChange(row, changeMarks);
+              const subOrders = row.subOrders || [row];
+              // Chỉ hiện trạng thái khác "Chốt" (mặc định) để bảng gọn
+              const statuses = Array.from(new Set(subOrders.map(o => getOrderTracking(orderTracking, o.id).status)))
+                .filter(status => status !== 'confirmed');
+              return (
+                <tr
+                  key={row.id}
+                  onClick={() => handleRowClick(row)}
+                  className={`hover:bg-blue-50/50 transition-colors cursor-pointer group ${
+                    change === 'added' ? 'bg-green-50' : change === 'changed' ? 'bg-amber-50' : ''
+                  }`}
+                >
+                  <td className="px-6 py-4 font-medium text-gray-500 whitespace-nowrap">
+                    {formatDate(row.date)}
+                    <br/>
+                    <span className="text-xs text-gray-400">
+                      <Clock className="w-3 h-3 inline mr-1"/>
+                      {formatTime(row.date)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className="font-bold text-gray-900 group-hover:text-blue-600 transition-colors">{row.customerName}</span>
+                    {change && (
+                      <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                        change === 'added' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'
+                      }`}>
+                        {change === 'added' ? 'Mới' : 'Vừa sửa'}
+                      </span>
+                    )}
+                    {statuses.map(status => <span key={status} className="ml-2"><OrderStatusBadge status={status} /></span>)}
+                    {showSource && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {Array.from(new Set(subOrders.map(o => o.sourceName))).map(name => (
+                          <span key={name} className="inline-flex px-1.5 py-0.5 rounded text-[10px] font-medium bg-gray-100 text-gray-600">{name}</span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  {mode === 'grouped' && (
+                    <td className="px-6 py-4 text-center">
+                      <span className={`inline-block px-2.5 py-1 rounded-full text-xs font-semibold ${subOrders.length > 1 ? 'bg-blue-100 text-blue-800' : 'text-gray-500'}`}>
+                        {subOrders.length}
+                      </span>
+                    </td>
+                  )}
+                  <td className="px-6 py-4 text-center">
+                    <span className="inline-block px-2.5 py-1 bg-gray-100 rounded-full text-xs font-semibold text-gray-700">{row.quantity}</span>
+                  </td>
+                  <td className="px-6 py-4 max-w-xs">
+                    <p className="text-gray-600 truncate">{row.details.replace(/\n/g, ', ')}</p>
+                    {row.facebookLink && <Facebook className="w-3 h-3 text-blue-600 mt-1 inline-block" />}
+                  </td>
+                  <td className="px-6 py-4 text-right font-bold text-blue-600 whitespace-nowrap text-base">
+                    {row.amount.toLocaleString('vi-VN', { style: 'currency', currency: 'VND' })}
+                  </td>
+                </tr>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={columns.length} className="px-6 py-12 text-center text-gray-500">
+                  {sourceRows.length === 0
+                    ? 'Không tìm thấy đơn hàng nào trong khoảng thời gian này.'
+                    : 'Không có đơn hàng nào khớp bộ lọc.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="px-6 py-3 border-t border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm text-gray-500">
+          <div className="flex items-center gap-3">
+            <span>
+              {(currentPage * pageSize + 1).toLocaleString('vi-VN')}-{(currentPage * pageSize + pageRows.length).toLocaleString('vi-VN')}
+              {' / '}{rows.length.toLocaleString('vi-VN')} {mode === 'grouped' ? 'khách' : 'đơn'}
+              {isFiltering && ` (lọc từ ${sourceRows.length.toLocaleString('vi-VN')})`}
+            </span>
+            <select
+              value={pageSize}
+              onChange={e => updateSettings({ pageSize: Number(e.target.value) })}
+              className="px-2 py-1 text-xs border border-gray-200 rounded-lg bg-white"
+            >
+              {PAGE_SIZES.map(size => <option key={size} value={size}>{size} / trang</option>)}
+            </select>
+          </div>
+          {pageCount > 1 && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Trang trước"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="px-2 whitespace-nowrap">
+                Trang
+                <input
+                  type="number"
+                  min={1}
+                  max={pageCount}
+                  value={currentPage + 1}
+                  onChange={e => {
+                    const next = Number(e.target.value);
+                    if (Number.isInteger(next) && next >= 1 && next <= pageCount) setPage(next - 1);
+                  }}
+                  className="w-14 mx-1.5 px-1.5 py-0.5 text-center text-sm border border-gray-200 rounded-lg"
+                />
+                / {pageCount.toLocaleString('vi-VN')}
+              </span>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+                className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Trang sau"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Truck, Filter } from 'lucide-react';
+import { OrderStatus, OrderTracking } from '../types';
+import { ORDER_STATUSES, PAYMENT_STATUSES, getStatusInfo } from '../services/orderTrackingService';
+
+export const OrderStatusBadge: React.FC<{ status: OrderStatus }> = ({ status }) => {
+  const info = getStatusInfo(status);
+  return <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${info.color}`}>{info.label}</span>;
+};
+
+interface OrderTrackingEditorProps {
+  tracking: OrderTracking;
+  onChange: (patch: Partial<Omit<OrderTracking, 'updatedAt'>>) => void;
+}
+
+// Trạng thái, thanh toán, mã vận đơn và ghi chú của một đơn (trong modal chi tiết khách)
+export const OrderTrackingEditor: React.FC<OrderTrackingEditorProps> = ({ tracking, onChange }) => (
+  <div className="space-y-2 pt-2 border-t border-gray-100">
+    <div className="flex flex-wrap gap-1">
+      {ORDER_STATUSES.map(s => (
+        <button
+          key={s.id}
+          onClick={() => onChange({ status: s.id })}
+          className={`px-2 py-0.5 rounded text-xs font-medium transition-all ${
+            tracking.status === s.id ? `${s.color} ring-1 ring-offset-1 ring-gray-400` : 'bg-gray-50 text-gray-500 hover:bg-gray-100'
+          }`}
+        >
+          {s.label}
+        </button>
+      ))}
+    </div>
+    <div className="flex gap-2">
+      <select
+        value={tracking.payment}
+        onChange={e => onChange({ payment: e.target.value as OrderTracking['payment'] })}
+        className="px-2 py-1 text-xs border border-gray-200 rounded-lg bg-white"
+      >
+        {PAYMENT_STATUSES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+      </select>
+      <div className="flex-1 min-w-0 flex items-center gap-1.5 px-2 py-1 border border-gray-200 rounded-lg">
+        <Truck className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+        <input
+          type="text"
+          placeholder="Mã vận đơn"
+          value={tracking.shippingCode}
+          onChange={e => onChange({ shippingCode: e.target.value })}
+          className="w-full bg-transparent border-none text-xs focus:ring-0 focus:outline-none p-0"
+        />
+      </div>
+    </div>
+    <textarea
+      placeholder="Ghi chú nội bộ"
+      value={tracking.note}
+      onChange={e => onChange({ note: e.target.value })}
+      rows={1}
+      className="w-full px-2 py-1 text-xs border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+    />
+  </div>
+);
+
+interface OrderStatusFilterProps {
+  selected: OrderStatus[]; // Rỗng = mọi trạng thái
+  counts: Partial<Record<OrderStatus, number>>;
+  onChange: (statuses: OrderStatus[]) => void;
+}
+
+export const OrderStatusFilter: React.FC<OrderStatusFilterProps> = ({ selected, counts, onChange }) => {
+  const toggle = (status: OrderStatus) =>
+    onChange(selected.includes(status) ? selected.filter(s => s !== status) : [...selected, status]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="flex items-center gap-1 text-xs font-medium text-gray-500 mr-1">
+        <Filter className="w-3.5 h-3.5" />
+        Trạng thái đơn:
+      </span>
+      <button
+        onClick={() => onChange([])}
+        className={`px-2.5 py-1 rounded-full text-xs font-medium ${selected.length === 0 ? 'bg-gray-900 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'}`}
+      >
+        Tất cả
+      </button>
+      {ORDER_STATUSES.map(s => (
+        <button
+          key={s.id}
+          onClick={() => toggle(s.id)}
+          className={`px-2.5 py-1 rounded-full text-xs font-medium ${selected.includes(s.id) ? `${s.color} ring-2 ring-offset-1 ring-gray-400` : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'}`}
+        >
+          {s.label} ({counts[s.id] || 0})
+        </button>
+      ))}
+    </div>
+  );
+};
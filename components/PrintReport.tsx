@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Printer } from 'lucide-react';
+import { Order, DailyStat } from '../types';
+import { RevenueChart } from './Charts';
+import { Granularity } from '../services/statsService';
+import { formatDate, formatTime, formatDateKey, formatDateTime } from '../services/dateUtils';
+
+export interface ReportKpi {
+  label: string;
+  value: string;
+  note?: string; // VD: "+12,5% so với hôm qua"
+}
+
+interface PrintReportProps {
+  shopName: string;
+  onShopNameChange: (name: string) => void;
+  periodLabel: string; // Tên bộ lọc ngày, VD: "Tháng này"
+  startDate: string;
+  endDate: string;
+  sourceNames: string[];
+  kpis: ReportKpi[];
+  chartData: DailyStat[];
+  granularity: Granularity;
+  topCustomers: Order[]; // Dòng đã gộp theo khách, sắp theo doanh thu
+  orders: Order[]; // Toàn bộ đơn trong khoảng ngày
+  onClose: () => void;
+}
+
+const TOP_CUSTOMER_COUNT = 10;
+
+// Lớp gắn vào <body> khi đang mở báo cáo: lúc in chỉ báo cáo được in, dashboard bị ẩn (xem index.html)
+const BODY_CLASS = 'report-open';
+
+const formatVnd = (value: number) => `${Math.round(value).toLocaleString('vi-VN')} đ`;
+
+export const PrintReport: React.FC<PrintReportProps> = ({
+  shopName, onShopNameChange, periodLabel, startDate, endDate, sourceNames,
+  kpis, chartData, granularity, topCustomers, orders, onClose
+}) => {
+  // Thời điểm lập báo cáo cố định khi mở, không đổi theo các lần làm mới dữ liệu
+  const [generatedAt] = useState(() => Date.now());
+
+  useEffect(() => {
+    document.body.classList.add(BODY_CLASS);
+    return () => document.body.classList.remove(BODY_CLASS);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const sortedOrders = [...orders].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const totalQuantity = orders.reduce((sum, o) => sum + o.quantity, 0);
+  const totalAmount = orders.reduce((sum, o) => sum + o.amount, 0);
+
+  const period = startDate || endDate
+    ? `${startDate ? formatDateKey(startDate) : '...'} - ${endDate ? formatDateKey(endDate) : '...'}`
+    : 'Toàn bộ thời gian';
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-gray-100 print:static print:overflow-visible print:bg-white">
+      {/* Thanh công cụ, không in */}
+      <div className="sticky top-0 z-10 bg-white border-b border-gray-200 shadow-sm print:hidden">
+        <div className="max-w-[210mm] mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            placeholder="Tên cửa hàng"
+            value={shopName}
+            onChange={e => onShopNameChange(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+          />
+          <button
+            onClick={() => window.print()}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+          >
+            <Printer className="w-4 h-4" />
+            In / Lưu PDF
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors" title="Đóng">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      {/* Trang A4: 210mm trừ lề in 12mm mỗi bên, giữ cố định để biểu đồ không bị co giãn lúc in */}
+      <div className="print-report w-[186mm] mx-auto my-6 p-[12mm] box-content bg-white shadow-sm text-gray-900 print:w-auto print:m-0 print:p-0 print:shadow-none">
+        <header className="flex justify-between items-start gap-6 border-b-2 border-gray-900 pb-4">
+          <div>
+            {shopName.trim() && <p className="text-sm font-semibold uppercase tracking-wide text-gray-500">{shopName.trim()}</p>}
+            <h1 className="text-2xl font-bold mt-1">Báo Cáo Doanh Thu</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Kỳ báo cáo: <span className="font-semibold text-gray-900">{period}</span>
+              {periodLabel && startDate && <span className="text-gray-500"> ({periodLabel})</span>}
+            </p>
+          </div>
+          <div className="text-right text-xs text-gray-500 flex-shrink-0">
+            <p>Lập lúc {formatDateTime(generatedAt)}</p>
+            {sourceNames.length > 0 && <p className="mt-1">Nguồn: {sourceNames.join(', ')}</p>}
+          </div>
+        </header>
+
+        <section className="print-avoid-break grid grid-cols-3 gap-3 mt-5">
+          {kpis.map(kpi => (
+            <div key={kpi.label} className="border border-gray-200 rounded-lg p-3">
+              <p className="text-xs font-medium text-gray-500">{kpi.label}</p>
+              <p className="text-lg font-bold mt-1">{kpi.value}</p>
+              {kpi.note && <p className="text-[11px] text-gray-500 mt-1">{kpi.note}</p>}
+            </div>
+          ))}
+        </section>
+
+        <section className="print-avoid-break mt-6">
+          <h2 className="text-sm font-bold uppercase tracking-wide text-gray-700 mb-2">Doanh thu theo thời gian</h2>
+          {chartData.length > 0
+            ? <RevenueChart data={chartData} granularity={granularity} />
+            : <p className="text-sm text-gray-500 py-6 text-center">Chưa có dữ liệu</p>}
+        </section>
+
+        <section className="mt-6">
+          <h2 className="text-sm font-bold uppercase tracking-wide text-gray-700 mb-2">Top khách hàng</h2>
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className="border-b border-gray-300 text-left text-gray-500">
+                <th className="py-1.5 pr-2 font-semibold w-8">#</th>
+                <th className="py-1.5 pr-2 font-semibold">Khách hàng</th>
+                <th className="py-1.5 pr-2 font-semibold text-center">Số đơn</th>
+                <th className="py-1.5 pr-2 font-semibold text-center">Tổng SL</th>
+                <th className="py-1.5 font-semibold text-right">Doanh thu</th>
+              </tr>
+            </thead>
+            <tbody>
+              {topCustomers.slice(0, TOP_CUSTOMER_COUNT).map((group, idx) => (
+                <tr key={group.id} className="border-b border-gray-100">
+                  <td className="py-1.5 pr-2 text-gray-400">{idx + 1}</td>
+                  <td className="py-1.5 pr-2 font-medium">{group.customerName}</td>
+                  <td className="py-1.5 pr-2 text-center">{group.subOrders?.length || 1}</td>
+                  <td className="py-1.5 pr-2 text-center">{group.quantity}</td>
+                  <td className="py-1.5 text-right font-semibold whitespace-nowrap">{formatVnd(group.amount)}</td>
+                </tr>
+              ))}
+              {topCustomers.length === 0 && (
+                <tr><td colSpan={5} className="py-4 text-center text-gray-500">Chưa có dữ liệu</td></tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="mt-6">
+          <h2 className="text-sm font-bold uppercase tracking-wide text-gray-700 mb-2">
+            Danh sách đơn hàng ({orders.length})
+          </h2>
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className="border-b border-gray-300 text-left text-gray-500">
+                <th className="py-1.5 pr-2 font-semibold w-8">#</th>
+                <th className="py-1.5 pr-2 font-semibold whitespace-nowrap">Ngày giờ</th>
+                <th className="py-1.5 pr-2 font-semibold">Khách hàng</th>
+                <th className="py-1.5 pr-2 font-semibold">Chi tiết</th>
+                <th className="py-1.5 pr-2 font-semibold text-center">SL</th>
+                <th className="py-1.5 font-semibold text-right">Thành tiền</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedOrders.map((order, idx) => (
+                <tr key={order.id} className="border-b border-gray-100 align-top">
+                  <td className="py-1.5 pr-2 text-gray-400">{idx + 1}</td>
+                  <td className="py-1.5 pr-2 whitespace-nowrap">{formatDate(order.date)} {formatTime(order.date)}</td>
+                  <td className="py-1.5 pr-2 font-medium">{order.customerName}</td>
+                  <td className="py-1.5 pr-2 text-gray-600 break-words">{order.details.replace(/\n/g, ', ')}</td>
+                  <td className="py-1.5 pr-2 text-center">{order.quantity}</td>
+                  <td className="py-1.5 text-right whitespace-nowrap">{formatVnd(order.amount)}</td>
+                </tr>
+              ))}
+              {orders.length === 0 && (
+                <tr><td colSpan={6} className="py-4 text-center text-gray-500">Không có đơn hàng nào trong kỳ này.</td></tr>
+              )}
+            </tbody>
+            {orders.length > 0 && (
+              <tfoot>
+                <tr className="border-t-2 border-gray-900 font-bold">
+                  <td colSpan={4} className="py-2 pr-2">Tổng cộng</td>
+                  <td className="py-2 pr-2 text-center">{totalQuantity}</td>
+                  <td className="py-2 text-right whitespace-nowrap">{formatVnd(totalAmount)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </section>
+      </div>
+    </div>,
+    document.body
+  );
+};
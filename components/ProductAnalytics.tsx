@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { Package, Settings, HelpCircle } from 'lucide-react';
+import { Order, Product, ProductMatch } from '../types';
+import { ProductSalesChart } from './Charts';
+import { buildProductReport, buildProductSalesSeries } from '../services/productService';
+import { Granularity } from '../services/statsService';
+
+interface ProductAnalyticsProps {
+  orders: Order[];
+  products: Product[];
+  matchesByOrderId: Map<string, ProductMatch[]>;
+  granularity: Granularity;
+  onOpenCatalog: (sampleText?: string) => void;
+}
+
+type ProductView = 'bestSellers' | 'trend' | 'unmatched';
+
+// Số sản phẩm bán chạy nhất được vẽ trên biểu đồ theo thời gian
+const TREND_PRODUCT_COUNT = 5;
+const UNMATCHED_LIMIT = 30;
+
+const formatTop = (items: { label: string; count: number }[]) =>
+  items.slice(0, 3).map(i => `${i.label} (${i.count})`).join(', ') || '—';
+
+export const ProductAnalytics: React.FC<ProductAnalyticsProps> = ({ orders, products, matchesByOrderId, granularity, onOpenCatalog }) => {
+  const [view, setView] = useState<ProductView>('bestSellers');
+
+  const report = useMemo(() => buildProductReport(orders, products, matchesByOrderId), [orders, products, matchesByOrderId]);
+  const trendProducts = useMemo(
+    () => report.products.slice(0, TREND_PRODUCT_COUNT).map(s => ({ id: s.product.id, name: s.product.name })),
+    [report]
+  );
+  const trendData = useMemo(
+    () => buildProductSalesSeries(orders, matchesByOrderId, trendProducts.map(p => p.id), granularity),
+    [orders, matchesByOrderId, trendProducts, granularity]
+  );
+
+  const unmatchedCount = report.unmatched.reduce((sum, u) => sum + u.count, 0);
+  const views: { id: ProductView; label: string }[] = [
+    { id: 'bestSellers', label: 'Bán chạy' },
+    { id: 'trend', label: 'Theo thời gian' },
+    { id: 'unmatched', label: `Chưa nhận diện (${unmatchedCount})` },
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Package className="w-5 h-5 text-teal-500" />
+            Sản Phẩm
+          </h3>
+          <p className="text-sm text-gray-500 mt-1">Nhận diện từ nội dung đơn theo danh mục sản phẩm.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {products.length > 0 && (
+            <div className="flex bg-gray-100 p-0.5 rounded-lg">
+              {views.map(v => (
+                <button
+                  key={v.id}
+                  onClick={() => setView(v.id)}
+                  className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-all whitespace-nowrap ${view === v.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  {v.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={() => onOpenCatalog()}
+            className="flex items-center gap-1.5 text-sm text-gray-600 bg-gray-50 hover:bg-gray-100 border border-gray-200 px-3 py-1 rounded-full font-medium"
+          >
+            <Settings className="w-4 h-4" />
+            Danh mục ({products.length})
+          </button>
+        </div>
+      </div>
+
+      {products.length === 0 ? (
+        <div className="px-6 py-12 text-center text-gray-500 text-sm">
+          Chưa có danh mục sản phẩm.{' '}
+          <button onClick={() => onOpenCatalog()} className="text-blue-600 font-medium hover:underline">Thêm sản phẩm</button>
+          {' '}để xem sản phẩm bán chạy.
+        </div>
+      ) : view === 'bestSellers' ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-gray-500 uppercase bg-gray-50/50">
+              <tr>
+                <th className="px-6 py-4 font-semibold whitespace-nowrap">#</th>
+                <th className="px-6 py-4 font-semibold whitespace-nowrap">Sản Phẩm</th>
+                <th className="px-6 py-4 font-semibold text-center whitespace-nowrap">SL Bán</th>
+                <th className="px-6 py-4 font-semibold text-center whitespace-nowrap">Số Đơn</th>
+                <th className="px-6 py-4 font-semibold whitespace-nowrap">Size / Màu Phổ Biến</th>
+                <th className="px-6 py-4 font-semibold text-right whitespace-nowrap">Doanh Thu</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.products.map((stat, idx) => (
+                <tr key={stat.product.id} className="hover:bg-gray-50/50">
+                  <td className="px-6 py-4 text-gray-400">{idx + 1}</td>
+                  <td className="px-6 py-4">
+                    <span className="font-bold text-gray-900">{stat.product.name}</span>
+                    {stat.product.sku && <span className="ml-2 text-xs text-gray-400">{stat.product.sku}</span>}
+                  </td>
+                  <td className="px-6 py-4 text-center">
+                    <span className="inline-block px-2.5 py-1 bg-gray-100 rounded-full text-xs font-semibold text-gray-700">{stat.quantity}</span>
+                  </td>
+                  <td className="px-6 py-4 text-center text-gray-600">{stat.orderCount}</td>
+                  <td className="px-6 py-4 text-xs text-gray-500">
+                    <p>Size: {formatTop(stat.sizes)}</p>
+                    <p>Màu: {formatTop(stat.colors)}</p>
+                  </td>
+                  <td className="px-6 py-4 text-right font-bold text-blue-600 whitespace-nowrap">
+                    {Math.round(stat.revenue).toLocaleString('vi-VN')} đ
+                  </td>
+                </tr>
+              ))}
+              {report.products.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">Không có sản phẩm nào được bán trong khoảng thời gian này.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      ) : view === 'trend' ? (
+        <div className="p-6">
+          {trendProducts.length > 0
+            ? <ProductSalesChart data={trendData} products={trendProducts} granularity={granularity} />
+            : <p className="text-center text-gray-500 text-sm py-12">Chưa có dữ liệu</p>}
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {report.unmatched.slice(0, UNMATCHED_LIMIT).map(item => (
+            <div key={item.text} className="px-6 py-3 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-800 line-clamp-2">{item.text}</p>
+                <p className="text-xs text-gray-400 mt-0.5">{item.count} đơn · {item.revenue.toLocaleString('vi-VN')} đ</p>
+              </div>
+              <button
+                onClick={() => onOpenCatalog(item.text)}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 rounded hover:bg-blue-50 flex-shrink-0"
+              >
+                <HelpCircle className="w-3.5 h-3.5" />
+                Thêm từ khóa
+              </button>
+            </div>
+          ))}
+          {report.unmatched.length === 0 && (
+            <p className="px-6 py-12 text-center text-gray-500 text-sm">Mọi đơn đều đã nhận diện được sản phẩm.</p>
+          )}
+          {report.unmatched.length > UNMATCHED_LIMIT && (
+            <p className="px-6 py-3 text-xs text-gray-400">Và {report.unmatched.length - UNMATCHED_LIMIT} nội dung khác...</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
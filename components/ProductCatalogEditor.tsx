@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { X, Package, Pencil, Trash2, Plus, Search } from 'lucide-react';
+import { Product } from '../types';
+import { createProductId, parseAliases, validateProduct, matchProducts } from '../services/productService';
+
+interface ProductCatalogEditorProps {
+  products: Product[];
+  onChange: (products: Product[]) => void;
+  sampleText?: string; // Nội dung đơn chưa nhận diện được, điền sẵn vào ô thử
+  onClose: () => void;
+}
+
+const EMPTY_FORM = { name: '', sku: '', unitPrice: '', aliases: '' };
+
+export const ProductCatalogEditor: React.FC<ProductCatalogEditorProps> = ({ products, onChange, sampleText = '', onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+  const [testText, setTestText] = useState(sampleText);
+
+  const testMatches = useMemo(() => testText.trim() ? matchProducts(testText, products) : [], [testText, products]);
+  const nameOf = (id: string) => products.find(p => p.id === id)?.name || id;
+
+  const startEdit = (product: Product) => {
+    setEditingId(product.id);
+    setForm({
+      name: product.name,
+      sku: product.sku,
+      unitPrice: product.unitPrice ? String(product.unitPrice) : '',
+      aliases: product.aliases.join(', ')
+    });
+    setFormError('');
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = {
+      name: form.name.trim(),
+      sku: form.sku.trim(),
+      unitPrice: form.unitPrice.trim() ? Number(form.unitPrice) : 0,
+      aliases: parseAliases(form.aliases)
+    };
+    const error = validateProduct(value);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    if (editingId) {
+      onChange(products.map(p => p.id === editingId ? { ...p, ...value } : p));
+    } else {
+      onChange([...products, { id: createProductId(), ...value }]);
+    }
+    resetForm();
+  };
+
+  const handleRemove = (product: Product) => {
+    if (!window.confirm(`Xóa sản phẩm "${product.name}"?`)) return;
+    onChange(products.filter(p => p.id !== product.id));
+    if (editingId === product.id) resetForm();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-100 flex justify-between items-start bg-gray-50/50 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">Danh Mục Sản Phẩm</h3>
+            <p className="text-sm text-gray-500 mt-1">Tên và từ khóa dùng để nhận diện sản phẩm trong nội dung đơn</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="space-y-2">
+            {products.length === 0 && <p className="text-sm text-gray-500">Chưa có sản phẩm nào.</p>}
+            {products.map(product => (
+              <div key={product.id} className={`flex items-center gap-3 p-3 rounded-xl border ${editingId === product.id ? 'border-blue-300 bg-blue-50/50' : 'border-gray-200'}`}>
+                <Package className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 truncate">
+                    {product.name}
+                    {product.sku && <span className="ml-2 text-xs font-normal text-gray-400">{product.sku}</span>}
+                  </p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {product.unitPrice > 0 ? `${product.unitPrice.toLocaleString('vi-VN')} đ` : 'Chưa có giá'}
+                    {product.aliases.length > 0 && ` · ${product.aliases.join(', ')}`}
+                  </p>
+                </div>
+                <button onClick={() => startEdit(product)} className="p-1.5 text-gray-400 hover:text-blue-600 rounded-lg hover:bg-gray-100" title="Sửa">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleRemove(product)} className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-gray-100" title="Xóa">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="border-t border-gray-100 pt-4 space-y-3">
+            <p className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+              {editingId ? <Pencil className="w-4 h-4 text-gray-500" /> : <Plus className="w-4 h-4 text-gray-500" />}
+              {editingId ? 'Sửa sản phẩm' : 'Thêm sản phẩm'}
+            </p>
+            <input
+              type="text"
+              placeholder="Tên sản phẩm (VD: Áo thun)"
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+            <div className="flex gap-3">
+              <input
+                type="text"
+                placeholder="Mã SKU"
+                value={form.sku}
+                onChange={e => setForm({ ...form, sku: e.target.value })}
+                className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+              />
+              <input
+                type="number"
+                min={0}
+                placeholder="Đơn giá (đ)"
+                value={form.unitPrice}
+                onChange={e => setForm({ ...form, unitPrice: e.target.value })}
+                className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+              />
+            </div>
+            <textarea
+              placeholder="Từ khóa khác, cách nhau bởi dấu phẩy (VD: ao phong, áo cotton)"
+              value={form.aliases}
+              onChange={e => setForm({ ...form, aliases: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+            {formError && <p className="text-xs text-red-600">{formError}</p>}
+            <div className="flex gap-2 justify-end">
+              {editingId && (
+                <button type="button" onClick={resetForm} className="px-4 py-2 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50">
+                  Hủy
+                </button>
+              )}
+              <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+                {editingId ? 'Lưu thay đổi' : 'Thêm sản phẩm'}
+              </button>
+            </div>
+          </form>
+
+          <div className="border-t border-gray-100 pt-4 space-y-2">
+            <p className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+              <Search className="w-4 h-4 text-gray-500" />
+              Thử nhận diện
+            </p>
+            <textarea
+              placeholder="Dán nội dung một đơn để xem kết quả nhận diện"
+              value={testText}
+              onChange={e => setTestText(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+            {testText.trim() && (
+              testMatches.length === 0 ? (
+                <p className="text-xs text-amber-700">Không nhận diện được sản phẩm nào — hãy thêm từ khóa cho sản phẩm tương ứng.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {testMatches.map((m, i) => (
+                    <li key={i} className="text-xs text-gray-700 bg-gray-50 px-2 py-1 rounded">
+                      <span className="font-semibold">{nameOf(m.productId)}</span> × {m.quantity}
+                      {m.size && ` · size ${m.size}`}
+                      {m.color && ` · màu ${m.color}`}
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
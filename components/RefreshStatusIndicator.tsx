@@ -0,0 +1,64 @@
+import React from 'react';
+import { Timer, WifiOff, EyeOff, PauseCircle } from 'lucide-react';
+import { REFRESH_INTERVALS, RefreshIntervalId, RefreshStatus, RefreshPauseReason } from '../services/refreshPolicy';
+import { formatTime } from '../services/dateUtils';
+
+interface RefreshStatusIndicatorProps {
+  intervalId: RefreshIntervalId;
+  onIntervalChange: (id: RefreshIntervalId) => void;
+  status: RefreshStatus;
+  nextRefreshAt: number | null;
+  pauseReason: RefreshPauseReason;
+}
+
+const PAUSE_LABELS: Record<Exclude<RefreshPauseReason, null>, { label: string; icon: typeof Timer }> = {
+  paused: { label: 'Đã tắt tự động làm mới', icon: PauseCircle },
+  hidden: { label: 'Tạm dừng khi tab bị ẩn', icon: EyeOff },
+  offline: { label: 'Mất kết nối mạng', icon: WifiOff },
+};
+
+export const RefreshStatusIndicator: React.FC<RefreshStatusIndicatorProps> = ({ intervalId, onIntervalChange, status, nextRefreshAt, pauseReason }) => {
+  const isFailing = status.failureCount > 0;
+  const dotColor = pauseReason
+    ? 'bg-gray-400'
+    : isFailing
+      ? (status.failureCount > 2 ? 'bg-red-500' : 'bg-amber-500')
+      : 'bg-green-500';
+  const pause = pauseReason ? PAUSE_LABELS[pauseReason] : null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-500">
+      <span className="flex items-center gap-1.5">
+        <span className={`w-2 h-2 rounded-full ${dotColor} ${!pauseReason && intervalId === 'live' ? 'animate-pulse' : ''}`} />
+        Cập nhật lần cuối: {status.lastSuccessAt ? formatTime(status.lastSuccessAt) : '—'}
+      </span>
+
+      <label className="flex items-center gap-1">
+        <Timer className="w-3.5 h-3.5 text-gray-400" />
+        <select
+          value={intervalId}
+          onChange={e => onIntervalChange(e.target.value as RefreshIntervalId)}
+          className="bg-transparent border-none text-sm text-gray-600 p-0 pr-5 focus:ring-0 cursor-pointer"
+          title="Chu kỳ tự động làm mới"
+        >
+          {REFRESH_INTERVALS.map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+        </select>
+      </label>
+
+      {pause ? (
+        <span className="flex items-center gap-1 text-xs text-gray-500">
+          <pause.icon className="w-3.5 h-3.5" />
+          {pause.label}
+        </span>
+      ) : nextRefreshAt && (
+        <span className="text-xs text-gray-400">Lần tới: {formatTime(nextRefreshAt, true)}</span>
+      )}
+
+      {isFailing && status.lastFailureAt && (
+        <span className="text-xs text-red-600 bg-red-50 px-2 py-0.5 rounded border border-red-100" title={status.lastError}>
+          Lỗi lúc {formatTime(status.lastFailureAt, true)} ({status.failureCount} lần liên tiếp): {status.lastError}
+        </span>
+      )}
+    </div>
+  );
+};
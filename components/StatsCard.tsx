@@ -1,5 +1,5 @@
 import React from 'react';
-import { LucideIcon } from 'lucide-react';
+import { LucideIcon, ArrowUpRight, ArrowDownRight, Minus } from 'lucide-react';
 
 interface StatsCardProps {
   title: string;
@@ -7,10 +7,18 @@ interface StatsCardProps {
   subValue?: string;
   icon: LucideIcon;
   trend?: 'up' | 'down' | 'neutral';
+  trendValue?: string; // VD: "+1.200.000 ₫ (+12,5%)"
+  trendLabel?: string; // VD: "so với hôm qua"
   color?: string;
 }
 
-export const StatsCard: React.FC<StatsCardProps> = ({ title, value, subValue, icon: Icon, color = "blue" }) => {
+const TREND_STYLES = {
+  up: { icon: ArrowUpRight, className: 'text-green-600' },
+  down: { icon: ArrowDownRight, className: 'text-red-600' },
+  neutral: { icon: Minus, className: 'text-gray-500' },
+};
+
+export const StatsCard: React.FC<StatsCardProps> = ({ title, value, subValue, icon: Icon, trend, trendValue, trendLabel, color = "blue" }) => {
   const colorClasses = {
     blue: "bg-blue-50 text-blue-600",
     green: "bg-green-50 text-green-600",
@@ -19,6 +27,7 @@ export const StatsCard: React.FC<StatsCardProps> = ({ title, value, subValue, ic
   };
 
   const selectedColor = colorClasses[color as keyof typeof colorClasses] || colorClasses.blue;
+  const trendStyle = trend ? TREND_STYLES[trend] : null;
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex items-start space-x-4 transition-all hover:shadow-md">
@@ -29,6 +38,15 @@ export const StatsCard: React.FC<StatsCardProps> = ({ title, value, subValue, ic
         <p className="text-sm font-medium text-gray-500">{title}</p>
         <h3 className="text-2xl font-bold text-gray-900 mt-1">{value}</h3>
         {subValue && <p className="text-xs text-gray-400 mt-1">{subValue}</p>}
+        {trendStyle && (
+          <p className="text-xs mt-2 flex items-center gap-1 flex-wrap">
+            <span className={`flex items-center font-semibold ${trendStyle.className}`}>
+              <trendStyle.icon size={14} />
+              {trendValue}
+            </span>
+            {trendLabel && <span className="text-gray-400">{trendLabel}</span>}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,218 @@
+import React, { useRef, useState } from 'react';
+import { Target, Pencil, Download, Upload, AlertCircle } from 'lucide-react';
+import { DataSource } from '../types';
+import {
+  RevenueTargets, TargetProgress as Progress, getMonthTarget, updateMonthTarget, exportTargetsJson, parseTargetsJson
+} from '../services/targetService';
+import { downloadBlob } from '../services/exportService';
+
+const formatVnd = (value: number) => value.toLocaleString('vi-VN', { style: 'currency', currency: 'VND', maximumFractionDigits: 0 });
+const formatPercent = (value: number) => `${value.toLocaleString('vi-VN', { maximumFractionDigits: 1 })}%`;
+const formatMonth = (month: string) => `${Number(month.slice(5))}/${month.slice(0, 4)}`;
+
+interface TargetEditorProps {
+  targets: RevenueTargets;
+  sources: DataSource[];
+  initialMonth: string;
+  onChange: (targets: RevenueTargets) => void;
+}
+
+// Đặt mục tiêu tổng và theo từng nguồn cho một tháng bất kỳ
+const TargetEditor: React.FC<TargetEditorProps> = ({ targets, sources, initialMonth, onChange }) => {
+  const [month, setMonth] = useState(initialMonth);
+  const target = getMonthTarget(targets, month);
+  const plannedMonths = Object.keys(targets).sort().reverse();
+
+  const amountInput = (value: number, onValueChange: (value: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      step={100000}
+      value={value || ''}
+      onChange={e => onValueChange(Math.max(0, Number(e.target.value) || 0))}
+      placeholder="Chưa đặt"
+      className="w-40 px-2 py-1 text-sm border border-gray-200 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+    />
+  );
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Tháng
+          <input
+            type="month"
+            value={month}
+            onChange={e => e.target.value && setMonth(e.target.value)}
+            className="px-2 py-1 text-sm border border-gray-200 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+          />
+        </label>
+        {plannedMonths.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {plannedMonths.map(m => (
+              <button
+                key={m}
+                onClick={() => setMonth(m)}
+                className={`px-2 py-0.5 text-xs rounded-full border ${m === month ? 'bg-blue-50 border-blue-200 text-blue-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+              >
+                T{formatMonth(m)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="flex items-center justify-between gap-2 text-sm text-gray-700">
+          <span className="font-medium">Toàn shop</span>
+          <span className="flex items-center gap-2">
+            {amountInput(target.total, value => onChange(updateMonthTarget(targets, month, null, value)))}
+            <span className="text-gray-400">đ</span>
+          </span>
+        </label>
+        {sources.length > 1 && sources.map(source => (
+          <label key={source.id} className="flex items-center justify-between gap-2 text-sm text-gray-600">
+            <span className="truncate" title={source.name}>{source.name}</span>
+            <span className="flex items-center gap-2">
+              {amountInput(target.bySource[source.id] || 0, value => onChange(updateMonthTarget(targets, month, source.id, value)))}
+              <span className="text-gray-400">đ</span>
+            </span>
+          </label>
+        ))}
+      </div>
+      {sources.length > 1 && (
+        <p className="text-xs text-gray-400">
+          Khi xem đủ mọi nguồn, mục tiêu toàn shop được ưu tiên; khi chỉ chọn một số nguồn, mục tiêu là tổng mục tiêu của các nguồn đó.
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface TargetProgressProps {
+  month: string; // YYYY-MM, tháng hiện tại
+  progress: Progress | null; // null khi tháng chưa có mục tiêu cho các nguồn đang xem
+  forecastExpected: number | null; // Doanh thu dự kiến cuối tháng (services/forecastService.ts)
+  targets: RevenueTargets;
+  sources: DataSource[];
+  onTargetsChange: (targets: RevenueTargets) => void;
+}
+
+export const TargetProgress: React.FC<TargetProgressProps> = ({ month, progress, forecastExpected, targets, sources, onTargetsChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [importMessage, setImportMessage] = useState<{ error: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportTargetsJson(targets)], { type: 'application/json' }), 'muc-tieu-doanh-thu.json');
+  };
+
+  // Tháng có trong file thay thế mục tiêu đang có của tháng đó, các tháng khác giữ nguyên
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const parsed = parseTargetsJson(await file.text());
+    if ('error' in parsed) {
+      setImportMessage({ error: true, text: parsed.error });
+      return;
+    }
+    onTargetsChange({ ...targets, ...parsed.targets });
+    setImportMessage({ error: false, text: `Đã nhập mục tiêu của ${Object.keys(parsed.targets).length} tháng` });
+  };
+
+  const isAhead = progress !== null && progress.actual >= progress.expectedByNow;
+  const pacePercent = progress && progress.target > 0 ? Math.min(100, (progress.expectedByNow / progress.target) * 100) : 0;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Target className="w-4 h-4 text-red-500" />
+          Mục tiêu tháng {formatMonth(month)}
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-lg ${isEditing ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            {progress ? 'Sửa mục tiêu' : 'Đặt mục tiêu'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={Object.keys(targets).length === 0}
+            title="Xuất mục tiêu ra file JSON"
+            className="p-1.5 text-gray-500 rounded-lg hover:bg-gray-100 disabled:opacity-40"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Nhập mục tiêu từ file JSON"
+            className="p-1.5 text-gray-500 rounded-lg hover:bg-gray-100"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {importMessage && (
+        <p className={`flex items-center gap-2 text-xs mt-3 ${importMessage.error ? 'text-red-600' : 'text-green-600'}`}>
+          {importMessage.error && <AlertCircle className="w-3.5 h-3.5" />}
+          {importMessage.text}
+        </p>
+      )}
+
+      {progress ? (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <p className="text-sm text-gray-600">
+              <span className="text-xl font-bold text-gray-900">{formatVnd(progress.actual)}</span>
+              {' / '}{formatVnd(progress.target)}
+            </p>
+            <p className={`text-sm font-semibold ${progress.percent >= 100 ? 'text-green-600' : 'text-gray-700'}`}>
+              {formatPercent(progress.percent)}
+            </p>
+          </div>
+
+          {/* Vạch dọc: mức cần có tới hôm nay nếu bán đều cả tháng */}
+          <div className="relative h-3 bg-gray-100 rounded-full">
+            <div
+              className={`h-full rounded-full ${progress.percent >= 100 ? 'bg-green-500' : isAhead ? 'bg-blue-500' : 'bg-amber-500'}`}
+              style={{ width: `${Math.min(100, progress.percent)}%` }}
+            />
+            {progress.percent < 100 && (
+              <div className="absolute -top-1 -bottom-1 w-0.5 bg-gray-500" style={{ left: `${pacePercent}%` }} title="Tiến độ đều" />
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-500">
+            {progress.percent >= 100 ? (
+              <span className="font-medium text-green-600">Đã đạt mục tiêu tháng</span>
+            ) : (
+              <>
+                <span className={isAhead ? 'text-blue-600' : 'text-amber-600'}>
+                  {isAhead ? 'Vượt' : 'Chậm'} {formatVnd(Math.abs(progress.actual - progress.expectedByNow))} so với tiến độ đều
+                </span>
+                {progress.remainingDays > 0 && (
+                  <span>
+                    Cần <span className="font-semibold text-gray-800">{formatVnd(progress.requiredPerDay)}</span>/ngày trong {progress.remainingDays} ngày còn lại
+                  </span>
+                )}
+              </>
+            )}
+            {forecastExpected !== null && (
+              <span>Dự kiến cuối tháng đạt {formatPercent((forecastExpected / progress.target) * 100)}</span>
+            )}
+          </div>
+        </div>
+      ) : (
+        !isEditing && <p className="text-sm text-gray-500 mt-3">Chưa đặt mục tiêu doanh thu cho tháng này.</p>
+      )}
+
+      {isEditing && <TargetEditor targets={targets} sources={sources} initialMonth={month} onChange={onTargetsChange} />}
+    </div>
+  );
+};
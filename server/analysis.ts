@@ -0,0 +1,68 @@
+import { Schema, Type } from '@google/genai';
+import { AnalysisResult } from '../types';
+import {
+  ANALYSIS_FIELDS, ANALYSIS_GRANULARITIES, AnalysisGranularity, MAX_ANALYSIS_POINTS, parseJsonText, pickAnalysisFields
+} from '../services/analysisSchema';
+
+// Dữ liệu client gửi lên /api/analyze: chỉ số liệu tổng hợp theo ngày (hoặc tuần / tháng), không có thông tin khách hàng
+export interface AnalysisRequest {
+  dailyStats: { date: string; orderCount: number; revenue: number }[];
+  granularity: AnalysisGranularity;
+}
+
+/** Kiểm tra body của yêu cầu; trả về thông báo lỗi (tiếng Việt) hoặc dữ liệu đã làm sạch. */
+export const validateAnalysisRequest = (body: unknown): { error: string } | { value: AnalysisRequest } => {
+  const stats = (body as { dailyStats?: unknown } | null)?.dailyStats;
+  if (!Array.isArray(stats)) return { error: 'Thiếu trường dailyStats (mảng)' };
+  if (stats.length === 0) return { error: 'dailyStats rỗng' };
+  if (stats.length > MAX_ANALYSIS_POINTS) return { error: `dailyStats tối đa ${MAX_ANALYSIS_POINTS} mốc, hãy gom theo tuần hoặc tháng` };
+  const rawGranularity = (body as { granularity?: unknown }).granularity ?? 'day';
+  const granularity = ANALYSIS_GRANULARITIES.find(g => g.id === rawGranularity)?.id;
+  if (!granularity) return { error: `granularity không hợp lệ: ${String(rawGranularity)}` };
+
+  const cleaned: AnalysisRequest['dailyStats'] = [];
+  for (const item of stats) {
+    const { date, orderCount, revenue } = (item || {}) as Record<string, unknown>;
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return { error: `Ngày không hợp lệ: ${String(date)}` };
+    if (typeof orderCount !== 'number' || !Number.isFinite(orderCount)) return { error: `Số lượng không hợp lệ ngày ${date}` };
+    if (typeof revenue !== 'number' || !Number.isFinite(revenue)) return { error: `Doanh thu không hợp lệ ngày ${date}` };
+    cleaned.push({ date, orderCount, revenue });
+  }
+  return { value: { dailyStats: cleaned, granularity } };
+};
+
+export const buildAnalysisPrompt = ({ dailyStats, granularity }: AnalysisRequest) => {
+  const unit = ANALYSIS_GRANULARITIES.find(g => g.id === granularity)!.label;
+  // Tóm tắt gọn dữ liệu để tiết kiệm token
+  const dataSummary = dailyStats.map(d => `${d.date}: ${d.orderCount} đơn, ${d.revenue.toLocaleString('vi-VN')} đ`).join('\n');
+
+  return `
+    Bạn là một chuyên gia phân tích dữ liệu kinh doanh.
+    Dưới đây là dữ liệu bán hàng theo ${unit}${granularity === 'day' ? '' : ` (ngày là ngày đầu ${unit})`} (Ngày: Số lượng đơn, Doanh thu):
+    ${dataSummary}
+
+    Hãy phân tích dữ liệu này và trả về kết quả dưới định dạng JSON (chỉ JSON thuần túy, không markdown) với các trường sau:
+    1. "summary": Tổng quan ngắn gọn về hiệu suất bán hàng.
+    2. "trend": Nhận xét về xu hướng tăng/giảm.
+    3. "recommendation": Một lời khuyên ngắn để cải thiện doanh số dựa trên dữ liệu.
+
+    Hãy trả lời bằng tiếng Việt.
+  `;
+};
+
+// Lược đồ gửi kèm yêu cầu để Gemini trả về đúng cấu trúc JSON
+export const ANALYSIS_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: Object.fromEntries(ANALYSIS_FIELDS.map(f => [f.key, { type: Type.STRING, description: f.label }])),
+  required: ANALYSIS_FIELDS.map(f => f.key),
+  propertyOrdering: ANALYSIS_FIELDS.map(f => f.key)
+};
+
+/**
+ * Lọc JSON mô hình trả về, chỉ giữ các trường hợp lệ; null nếu không có trường nào dùng được.
+ * Trường thiếu được trình duyệt thay bằng nội dung mặc định (services/analysisSchema.ts).
+ */
+export const parseAnalysisResult = (text: string): Partial<AnalysisResult> | null => {
+  const fields = pickAnalysisFields(parseJsonText(text));
+  return Object.keys(fields).length > 0 ? fields : null;
+};
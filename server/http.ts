@@ -0,0 +1,28 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+// Lỗi kèm mã HTTP; thông điệp (tiếng Việt) được trả về cho trình duyệt
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Dữ liệu gửi lên quá lớn');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Body không phải JSON hợp lệ');
+  }
+};
@@ -0,0 +1,102 @@
+// Máy chủ Node nhỏ giữ GEMINI_API_KEY phía server: trình duyệt gọi /api/analyze, /api/query thay vì gọi thẳng Gemini.
+// Chạy: `npm run server` (Gemini thật) hoặc `npm run server:stub` (phản hồi mẫu, không cần API key).
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { extname, join, normalize, resolve } from 'node:path';
+import { loadEnvFile } from 'node:process';
+import { createGeminiClient, createStubClient, ModelClient, DEFAULT_GEMINI_MODEL } from './modelClient';
+import { HttpError, sendJson } from './http';
+import { createModelRoutes } from './modelRoutes';
+import { createRateLimiter } from './rateLimiter';
+
+// Cùng file cấu hình với Vite (.env.local ưu tiên hơn .env)
+['.env.local', '.env'].forEach(file => {
+  if (existsSync(file)) loadEnvFile(file);
+});
+
+const PORT = Number(process.env.API_PORT) || 8787;
+const USE_STUB = process.argv.includes('--stub') || process.env.AI_STUB === '1';
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 10;
+// Chỉ tin header X-Forwarded-For khi chạy sau reverse proxy, nếu không ai cũng có thể giả IP để né giới hạn
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const MAX_BODY_BYTES = 256 * 1024;
+const STATIC_DIR = resolve('dist');
+
+const createModelClient = (): ModelClient | null => {
+  if (USE_STUB) return createStubClient();
+  const apiKey = process.env.GEMINI_API_KEY;
+  return apiKey ? createGeminiClient(apiKey, process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL) : null;
+};
+
+const model = createModelClient();
+const rateLimiter = createRateLimiter({ limit: RATE_LIMIT_PER_MINUTE, windowMs: 60 * 1000 });
+setInterval(() => rateLimiter.prune(), 5 * 60 * 1000).unref();
+
+const getClientIp = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const MODEL_ROUTES = createModelRoutes({ model, rateLimiter, maxBodyBytes: MAX_BODY_BYTES });
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+// Phục vụ bản build của giao diện (npm run build) nếu có, để triển khai chỉ cần một tiến trình
+const serveStatic = (pathname: string, res: ServerResponse) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, 'Đường dẫn không hợp lệ'); // URIError, ví dụ GET /%E0
+  }
+  const filePath = join(STATIC_DIR, normalize(decoded).replace(/^(\.\.[/\\])+/, ''));
+  const target = filePath.startsWith(STATIC_DIR) && existsSync(filePath) && statSync(filePath).isFile()
+    ? filePath
+    : join(STATIC_DIR, 'index.html'); // Ứng dụng một trang: đường dẫn lạ trả về index.html
+  if (!existsSync(target)) throw new HttpError(404, 'Không tìm thấy');
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(target)] || 'application/octet-stream' });
+  res.end(readFileSync(target));
+};
+
+const server = createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const ip = getClientIp(req);
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  // Nhật ký mỗi yêu cầu: không ghi body để không lộ dữ liệu bán hàng
+  res.on('finish', () => {
+    console.log(`${new Date().toISOString()} ${ip} ${req.method} ${pathname} ${res.statusCode} ${Date.now() - startedAt}ms`);
+  });
+
+  try {
+    if (pathname === '/api/health' && req.method === 'GET') {
+      sendJson(res, 200, { ok: true, model: model?.name || null });
+    } else if (MODEL_ROUTES[pathname]) {
+      if (req.method !== 'POST') throw new HttpError(405, 'Chỉ hỗ trợ POST');
+      await MODEL_ROUTES[pathname](req, res, ip);
+    } else if (pathname.startsWith('/api/')) {
+      throw new HttpError(404, 'Không tìm thấy');
+    } else if (req.method === 'GET') {
+      serveStatic(pathname, res);
+    } else {
+      throw new HttpError(405, 'Phương thức không được hỗ trợ');
+    }
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error('Lỗi không mong muốn:', error);
+    if (!res.headersSent) sendJson(res, status, { error: error instanceof HttpError ? error.message : 'Lỗi máy chủ' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`API đang chạy tại http://localhost:${PORT} (mô hình: ${model?.name || 'chưa cấu hình GEMINI_API_KEY'})`);
+});
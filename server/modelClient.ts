@@ -0,0 +1,50 @@
+import { GoogleGenAI, Schema, Type } from '@google/genai';
+
+// Lớp gọi mô hình ngôn ngữ: Gemini thật (cần API key) hoặc bản giả trả kết quả cố định để chạy thử cục bộ
+export interface ModelClient {
+  name: string;
+  generateJson: (prompt: string, schema?: Schema) => Promise<string>;
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+export const createGeminiClient = (apiKey: string, model = DEFAULT_GEMINI_MODEL): ModelClient => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: model,
+    generateJson: async (prompt, schema) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { responseMimeType: 'application/json', responseSchema: schema }
+      });
+      if (!response.text) throw new Error('Mô hình không trả về nội dung');
+      return response.text;
+    }
+  };
+};
+
+// Giá trị mẫu hợp lệ theo lược đồ: chuỗi lấy giá trị enum đầu tiên (nếu có), số = 0, mảng rỗng
+const sampleFromSchema = (schema: Schema): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const keys = schema.required || Object.keys(schema.properties || {});
+      return Object.fromEntries(keys.map(key => [key, sampleFromSchema(schema.properties?.[key] || {})]));
+    }
+    case Type.ARRAY:
+      return [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 0;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return schema.enum?.[0] ?? `[Stub] ${schema.description || 'Nội dung mẫu'}`;
+  }
+};
+
+/** Không gọi mạng: trả về JSON mẫu đúng lược đồ được yêu cầu, để chạy thử cục bộ mà không cần API key. */
+export const createStubClient = (): ModelClient => ({
+  name: 'stub',
+  generateJson: async (_prompt, schema) => JSON.stringify(schema ? sampleFromSchema(schema) : {})
+});
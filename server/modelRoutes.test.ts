@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { ModelClient, createStubClient } from './modelClient';
+import { HttpError } from './http';
+import { createModelRoutes } from './modelRoutes';
+import { createRateLimiter } from './rateLimiter';
+
+const QUESTION = JSON.stringify({ question: 'doanh thu hôm nay', today: '2026-03-18' });
+const ANALYSIS = JSON.stringify({ dailyStats: [{ date: '2026-03-18', orderCount: 2, revenue: 500000 }] });
+
+const request = (body: string) => Readable.from([Buffer.from(body)]) as unknown as IncomingMessage;
+
+// Ghi lại header và nội dung phản hồi thay cho ServerResponse thật
+const response = () => {
+  const headers: Record<string, string> = {};
+  const res = {
+    status: 0,
+    body: '',
+    headers,
+    setHeader: (name: string, value: string) => { headers[name] = value; },
+    writeHead(status: number) { this.status = status; },
+    end(body: string) { this.body = body; }
+  };
+  return res;
+};
+
+// Mô hình mẫu (phản hồi đúng schema), đếm số lần được gọi
+const fakeModel = (): ModelClient => {
+  const stub = createStubClient();
+  return { name: 'fake', generateJson: vi.fn(stub.generateJson) };
+};
+
+const setup = (limit: number, model: ModelClient | null = fakeModel()) => {
+  const routes = createModelRoutes({ model, rateLimiter: createRateLimiter({ limit, windowMs: 60000 }), maxBodyBytes: 1024 });
+  // Gọi endpoint, trả về mã lỗi HTTP (hoặc 200) cùng phản hồi
+  const call = async (path: string, body: string) => {
+    const res = response();
+    try {
+      await routes[path](request(body), res as unknown as ServerResponse, '1.2.3.4');
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      res.status = error.status;
+    }
+    return res;
+  };
+  return { model, call };
+};
+
+describe('createModelRoutes: giới hạn tần suất', () => {
+  it('yêu cầu hợp lệ được tính lượt; vượt giới hạn trả 429 kèm Retry-After và không gọi mô hình', async () => {
+    const { model, call } = setup(2);
+    const first = await call('/api/query', QUESTION);
+    expect(first.status).toBe(200);
+    expect(JSON.parse(first.body)).toHaveProperty('metric');
+    expect(first.headers['X-RateLimit-Remaining']).toBe('1');
+    expect((await call('/api/analyze', ANALYSIS)).status).toBe(200);
+
+    const limited = await call('/api/query', QUESTION);
+    expect(limited.status).toBe(429);
+    expect(limited.headers['Retry-After']).toBe('60');
+    expect(model!.generateJson).toHaveBeenCalledTimes(2);
+  });
+
+  it('yêu cầu không gọi tới mô hình không tốn lượt', async () => {
+    const { model, call } = setup(1);
+    expect((await call('/api/query', '{khong phai json')).status).toBe(400);
+    expect((await call('/api/query', JSON.stringify({ question: '' }))).status).toBe(400);
+    expect((await call('/api/analyze', JSON.stringify({ dailyStats: [] }))).status).toBe(400);
+    expect((await call('/api/query', 'x'.repeat(2048))).status).toBe(413);
+    expect(model!.generateJson).not.toHaveBeenCalled();
+
+    expect((await call('/api/query', QUESTION)).status).toBe(200);
+    expect((await call('/api/query', QUESTION)).status).toBe(429);
+  });
+
+  it('chưa cấu hình mô hình: trả 503, không tốn lượt', async () => {
+    const { call } = setup(1, null);
+    expect((await call('/api/query', QUESTION)).status).toBe(503);
+    expect((await call('/api/analyze', ANALYSIS)).status).toBe(503);
+  });
+
+  it('mô hình lỗi vẫn tính lượt vì đã gọi tới mô hình', async () => {
+    const model: ModelClient = { name: 'fake', generateJson: vi.fn(async () => { throw new Error('quota'); }) };
+    const { call } = setup(1, model);
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await call('/api/query', QUESTION)).status).toBe(502);
+    expect((await call('/api/query', QUESTION)).status).toBe(429);
+    expect(model.generateJson).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,67 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Schema } from '@google/genai';
+import { ModelClient } from './modelClient';
+import { HttpError, readJsonBody, sendJson } from './http';
+import { validateAnalysisRequest, buildAnalysisPrompt, parseAnalysisResult, ANALYSIS_RESPONSE_SCHEMA } from './analysis';
+import { validateQuestionRequest, buildQuestionPrompt, parseQueryResponse, QUERY_RESPONSE_SCHEMA } from './query';
+import { RateLimiter } from './rateLimiter';
+
+export type ModelRoute = (req: IncomingMessage, res: ServerResponse, ip: string) => Promise<void>;
+
+interface ModelRoutesOptions {
+  model: ModelClient | null; // null: chưa cấu hình GEMINI_API_KEY
+  rateLimiter: RateLimiter;
+  maxBodyBytes: number;
+}
+
+/** Các endpoint gọi mô hình (đều nhận POST), theo đường dẫn. */
+export const createModelRoutes = ({ model, rateLimiter, maxBodyBytes }: ModelRoutesOptions): Record<string, ModelRoute> => {
+  // Kiểm tra cấu hình trước khi đọc body, trả về mô hình dùng được
+  const requireModel = (): ModelClient => {
+    if (!model) throw new HttpError(503, 'Máy chủ chưa cấu hình GEMINI_API_KEY');
+    return model;
+  };
+
+  // Giới hạn tần suất chỉ tính các yêu cầu đã hợp lệ và thật sự gọi mô hình; yêu cầu sai bị từ chối mà không tốn lượt
+  const callModel = async (res: ServerResponse, ip: string, prompt: string, schema: Schema) => {
+    const client = requireModel();
+    const limit = rateLimiter.check(ip);
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil(limit.retryAfterMs / 1000)));
+      throw new HttpError(429, 'Quá nhiều yêu cầu, vui lòng thử lại sau');
+    }
+    res.setHeader('X-RateLimit-Remaining', String(limit.remaining));
+
+    try {
+      return await client.generateJson(prompt, schema);
+    } catch (error) {
+      console.error('Gọi mô hình thất bại:', error);
+      throw new HttpError(502, 'Không gọi được mô hình');
+    }
+  };
+
+  const handleAnalyze: ModelRoute = async (req, res, ip) => {
+    requireModel();
+    const parsed = validateAnalysisRequest(await readJsonBody(req, maxBodyBytes));
+    if ('error' in parsed) throw new HttpError(400, parsed.error);
+
+    const result = parseAnalysisResult(await callModel(res, ip, buildAnalysisPrompt(parsed.value), ANALYSIS_RESPONSE_SCHEMA));
+    if (!result) throw new HttpError(502, 'Mô hình trả về dữ liệu không đúng định dạng');
+    sendJson(res, 200, result);
+  };
+
+  const handleQuery: ModelRoute = async (req, res, ip) => {
+    requireModel();
+    const parsed = validateQuestionRequest(await readJsonBody(req, maxBodyBytes));
+    if ('error' in parsed) throw new HttpError(400, parsed.error);
+
+    const query = parseQueryResponse(await callModel(res, ip, buildQuestionPrompt(parsed.value), QUERY_RESPONSE_SCHEMA));
+    if (!query) throw new HttpError(502, 'Mô hình trả về dữ liệu không đúng định dạng');
+    sendJson(res, 200, query);
+  };
+
+  return {
+    '/api/analyze': handleAnalyze,
+    '/api/query': handleQuery,
+  };
+};
@@ -0,0 +1,66 @@
+import { Schema, Type } from '@google/genai';
+import { QUERY_METRICS, QUERY_GROUP_BYS, QUERY_RANGES, QUERY_SORTS, QUERY_DISPLAYS, MAX_QUERY_LIMIT } from '../services/dataQuery';
+import { DATE_PRESETS } from '../services/dateRanges';
+import { parseJsonText } from '../services/analysisSchema';
+
+// Câu hỏi "Hỏi dữ liệu" gửi lên /api/query: chỉ có câu hỏi và ngày hôm nay, không có dữ liệu bán hàng
+export interface QuestionRequest {
+  question: string;
+  today: string;
+}
+
+const MAX_QUESTION_LENGTH = 500;
+
+export const validateQuestionRequest = (body: unknown): { error: string } | { value: QuestionRequest } => {
+  const { question, today } = (body || {}) as Record<string, unknown>;
+  if (typeof question !== 'string' || !question.trim()) return { error: 'Thiếu câu hỏi' };
+  if (question.length > MAX_QUESTION_LENGTH) return { error: `Câu hỏi tối đa ${MAX_QUESTION_LENGTH} ký tự` };
+  if (typeof today !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(today)) return { error: 'Ngày hôm nay không hợp lệ' };
+  return { value: { question: question.trim(), today } };
+};
+
+export const buildQuestionPrompt = ({ question, today }: QuestionRequest) => `
+    Bạn chuyển câu hỏi của nhân viên bán hàng thành một truy vấn JSON trên dữ liệu đơn hàng.
+    Bạn KHÔNG trả lời câu hỏi và KHÔNG tự tính số liệu; chỉ trả về truy vấn.
+    Hôm nay là ${today}. Tuần bắt đầu từ thứ Hai.
+
+    Các trường của truy vấn:
+    - "metric": ${QUERY_METRICS.map(m => `"${m.id}" (${m.description})`).join(', ')}.
+    - "groupBy": ${QUERY_GROUP_BYS.map(g => `"${g.id}" (${g.description})`).join(', ')}.
+    - "range": "current" (khoảng đang xem trên màn hình, dùng khi câu hỏi không nói thời gian), ${DATE_PRESETS.map(p => `"${p.id}" (${p.label})`).join(', ')}, hoặc "custom" kèm "start" và "end" dạng YYYY-MM-DD.
+    - "weekdays": mảng thứ trong tuần cần lấy (0 = Chủ nhật, 1 = Thứ 2, ..., 6 = Thứ 7), bỏ trống nếu lấy mọi ngày.
+    - "customer": một phần tên khách nếu câu hỏi nhắc tới một khách cụ thể.
+    - "text": từ khóa trong nội dung đơn (tên sản phẩm, màu, size...) nếu câu hỏi lọc theo nội dung.
+    - "sort": "desc" (lớn nhất trước), "asc" (nhỏ nhất trước) hoặc "key" (theo thứ tự thời gian / thứ).
+    - "limit": số nhóm tối đa trả về (1 - ${MAX_QUERY_LIMIT}).
+    - "display": "number", "table" hoặc "chart".
+
+    Ví dụ: "khách nào mua nhiều nhất tuần trước?" -> {"metric":"revenue","groupBy":"customer","range":"lastWeek","sort":"desc","limit":5,"display":"table"}
+    Ví dụ: "doanh thu thứ 7 so với chủ nhật?" -> {"metric":"revenue","groupBy":"weekday","range":"current","weekdays":[6,0],"sort":"key","display":"chart"}
+
+    Câu hỏi: ${JSON.stringify(question)}
+  `;
+
+export const QUERY_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    metric: { type: Type.STRING, enum: QUERY_METRICS.map(m => m.id) },
+    groupBy: { type: Type.STRING, enum: QUERY_GROUP_BYS.map(g => g.id) },
+    range: { type: Type.STRING, enum: QUERY_RANGES },
+    start: { type: Type.STRING },
+    end: { type: Type.STRING },
+    weekdays: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+    customer: { type: Type.STRING },
+    text: { type: Type.STRING },
+    sort: { type: Type.STRING, enum: QUERY_SORTS },
+    limit: { type: Type.INTEGER },
+    display: { type: Type.STRING, enum: QUERY_DISPLAYS }
+  },
+  required: ['metric', 'groupBy', 'range']
+};
+
+/** Chỉ kiểm tra là đối tượng JSON; trình duyệt kiểm tra chặt từng trường (validateDataQuery) trước khi chạy. */
+export const parseQueryResponse = (text: string): Record<string, unknown> | null => {
+  const data = parseJsonText(text);
+  return data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, unknown> : null;
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+describe('createRateLimiter', () => {
+  it('cho phép tối đa `limit` yêu cầu trong cửa sổ, báo số lượt còn lại', () => {
+    const limiter = createRateLimiter({ limit: 3, windowMs: 60000 });
+    expect([0, 1000, 2000].map(now => limiter.check('ip', now).remaining)).toEqual([2, 1, 0]);
+    expect(limiter.check('ip', 3000)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 57000 });
+  });
+
+  it('cửa sổ trượt: yêu cầu cũ hết hạn thì có lại lượt', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60000 });
+    limiter.check('ip', 0);
+    limiter.check('ip', 30000);
+    expect(limiter.check('ip', 59999).allowed).toBe(false);
+    // Đúng 60s sau yêu cầu đầu: chỉ còn yêu cầu lúc 30s trong cửa sổ
+    expect(limiter.check('ip', 60000)).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    expect(limiter.check('ip', 60001)).toMatchObject({ allowed: false, retryAfterMs: 29999 });
+  });
+
+  it('yêu cầu bị từ chối không tính vào cửa sổ', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60000 });
+    limiter.check('ip', 0);
+    for (let now = 10000; now < 60000; now += 10000) expect(limiter.check('ip', now).allowed).toBe(false);
+    expect(limiter.check('ip', 60000).allowed).toBe(true);
+  });
+
+  it('đếm riêng từng khóa', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60000 });
+    expect(limiter.check('a', 0).allowed).toBe(true);
+    expect(limiter.check('a', 1).allowed).toBe(false);
+    expect(limiter.check('b', 1).allowed).toBe(true);
+  });
+
+  it('prune chỉ xóa khóa đã hết hạn, không đổi kết quả đếm', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60000 });
+    limiter.check('old', 0);
+    limiter.check('new', 30000);
+    limiter.prune(60000);
+    expect(limiter.check('old', 60000).allowed).toBe(true);
+    expect(limiter.check('new', 60000)).toMatchObject({ allowed: false, retryAfterMs: 30000 });
+  });
+});
@@ -0,0 +1,35 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 khi được phép
+}
+
+/**
+ * Giới hạn số yêu cầu theo cửa sổ trượt cho từng khóa (địa chỉ IP).
+ * Lưu trong bộ nhớ tiến trình: đủ cho một máy chủ đơn, khởi động lại thì đếm lại từ đầu.
+ */
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+  const hits = new Map<string, number[]>();
+
+  const check = (key: string, now = Date.now()): RateLimitResult => {
+    const recent = (hits.get(key) || []).filter(time => now - time < windowMs);
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return { allowed: false, remaining: 0, retryAfterMs: windowMs - (now - recent[0]) };
+    }
+    recent.push(now);
+    hits.set(key, recent);
+    return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+  };
+
+  // Dọn các khóa không còn yêu cầu nào trong cửa sổ để Map không lớn dần
+  const prune = (now = Date.now()) => {
+    hits.forEach((times, key) => {
+      if (times.every(time => now - time >= windowMs)) hits.delete(key);
+    });
+  };
+
+  return { check, prune };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,61 @@
+import { AnalysisResult } from '../types';
+
+// Định dạng phản hồi phân tích, dùng chung cho máy chủ (lọc phản hồi của mô hình) và trình duyệt (điền giá trị thay thế)
+export const ANALYSIS_FIELDS: { key: keyof AnalysisResult; label: string; fallback: string }[] = [
+  { key: 'summary', label: 'Tổng quan', fallback: 'Mô hình không đưa ra nhận xét tổng quan.' },
+  { key: 'trend', label: 'Xu hướng', fallback: 'Mô hình không đưa ra nhận xét về xu hướng.' },
+  { key: 'recommendation', label: 'Gợi ý', fallback: 'Mô hình không đưa ra gợi ý.' },
+];
+
+// Số mốc tối đa trong một yêu cầu phân tích (giới hạn prompt và chi phí gọi mô hình); dữ liệu dài hơn
+// được trình duyệt gom theo tuần / tháng trước khi gửi (services/analysisService.ts)
+export const MAX_ANALYSIS_POINTS = 400;
+
+// Độ chi tiết của số liệu gửi đi: mỗi mốc là một ngày, hoặc một tuần / tháng (ngày = ngày đầu kỳ)
+export const ANALYSIS_GRANULARITIES = [
+  { id: 'day', label: 'ngày' },
+  { id: 'week', label: 'tuần' },
+  { id: 'month', label: 'tháng' },
+] as const;
+
+export type AnalysisGranularity = typeof ANALYSIS_GRANULARITIES[number]['id'];
+
+// Cắt bớt nội dung quá dài (mô hình trả lời lan man hoặc lặp)
+const MAX_FIELD_LENGTH = 2000;
+
+/** Đọc JSON từ văn bản mô hình trả về, bỏ khung ```json ... ``` nếu có; undefined nếu không đọc được. */
+export const parseJsonText = (text: string): unknown => {
+  const stripped = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(stripped);
+  } catch {
+    return undefined;
+  }
+};
+
+/** Chỉ giữ các trường là chuỗi không rỗng; trường thiếu hoặc sai kiểu bị bỏ. */
+export const pickAnalysisFields = (raw: unknown): Partial<AnalysisResult> => {
+  const picked: Partial<AnalysisResult> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return picked;
+  ANALYSIS_FIELDS.forEach(({ key }) => {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === 'string' && value.trim()) picked[key] = value.trim().slice(0, MAX_FIELD_LENGTH);
+  });
+  return picked;
+};
+
+export interface CheckedAnalysis {
+  result: AnalysisResult;
+  missing: (keyof AnalysisResult)[]; // Các trường đã thay bằng nội dung mặc định
+}
+
+/** Kiểm tra phản hồi và điền nội dung thay thế cho trường thiếu; null nếu không có trường nào dùng được. */
+export const checkAnalysisResult = (raw: unknown): CheckedAnalysis | null => {
+  const picked = pickAnalysisFields(typeof raw === 'string' ? parseJsonText(raw) : raw);
+  const missing = ANALYSIS_FIELDS.filter(f => picked[f.key] === undefined).map(f => f.key);
+  if (missing.length === ANALYSIS_FIELDS.length) return null;
+
+  const result = {} as AnalysisResult;
+  ANALYSIS_FIELDS.forEach(({ key, fallback }) => { result[key] = picked[key] ?? fallback; });
+  return { result, missing };
+};
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DailyStat } from '../types';
+import { ANALYSIS_GRANULARITIES, MAX_ANALYSIS_POINTS } from './analysisSchema';
+import { AnalysisProvider, getAnalysisCacheKey, getCachedAnalysis, runAnalysis } from './analysisService';
+import { addDays } from './dateUtils';
+
+const STATS: DailyStat[] = [
+  { date: '2026-03-01', orderCount: 3, revenue: 300000 },
+  { date: '2026-03-02', orderCount: 5, revenue: 800000 },
+];
+
+// Mô hình giả: cùng dữ liệu luôn cho cùng kết quả, không gọi mạng
+const fakeAnalysisProvider: AnalysisProvider = {
+  id: 'fake',
+  label: 'Mô hình giả',
+  analyze: async (stats, granularity) => {
+    const unit = ANALYSIS_GRANULARITIES.find(g => g.id === granularity)!.label;
+    const revenue = stats.reduce((sum, d) => sum + d.revenue, 0);
+    const orders = stats.reduce((sum, d) => sum + d.orderCount, 0);
+    const best = stats.reduce((top, d) => d.revenue > top.revenue ? d : top, stats[0]);
+    return {
+      summary: `${stats.length} ${unit}, ${orders} đơn, doanh thu ${revenue.toLocaleString('vi-VN')} đ.`,
+      trend: 'Doanh thu ổn định.',
+      recommendation: `Xem lại điều gì đã làm nên ${unit} ${best.date}.`
+    };
+  }
+};
+
+const providerReturning = (raw: unknown): AnalysisProvider => ({ id: 'test', label: 'Thử', analyze: vi.fn(async () => raw) });
+
+// localStorage trong bộ nhớ: cache phân tích được lưu qua services/storage.ts
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('runAnalysis', () => {
+  it('từ chối phản hồi không có trường hợp lệ nào và không lưu cache', async () => {
+    for (const raw of ['không phải JSON', {}, { summary: '   ', trend: 42 }, ['summary']]) {
+      await expect(runAnalysis(providerReturning(raw), 'k', STATS)).rejects.toThrow('không đúng định dạng');
+    }
+    expect(getCachedAnalysis('k')).toBeNull();
+  });
+
+  it('điền nội dung mặc định cho trường thiếu và ghi lại trường đó', async () => {
+    const raw = '```json\n{"summary": " Doanh thu ổn định ", "trend": 1}\n```';
+    const analysis = await runAnalysis(providerReturning(raw), 'k', STATS);
+    expect(analysis.result.summary).toBe('Doanh thu ổn định');
+    expect(analysis.result.trend).toBe('Mô hình không đưa ra nhận xét về xu hướng.');
+    expect(analysis.missing).toEqual(['trend', 'recommendation']);
+  });
+
+  it('lấy kết quả từ cache khi cùng khóa, gọi lại khi ép chạy hoặc dữ liệu đổi', async () => {
+    const analyze = vi.spyOn(fakeAnalysisProvider, 'analyze');
+    const key = getAnalysisCacheKey(fakeAnalysisProvider.id, '2026-03-01', '2026-03-02', STATS);
+
+    const first = await runAnalysis(fakeAnalysisProvider, key, STATS);
+    expect(first.missing).toEqual([]);
+    expect(first.result.summary).toContain('2 ngày, 8 đơn');
+    expect(await runAnalysis(fakeAnalysisProvider, key, STATS)).toEqual(first);
+    expect(analyze).toHaveBeenCalledTimes(1);
+
+    await runAnalysis(fakeAnalysisProvider, key, STATS, true);
+    expect(analyze).toHaveBeenCalledTimes(2);
+
+    const changed = [STATS[0], { ...STATS[1], revenue: 900000 }];
+    const changedKey = getAnalysisCacheKey(fakeAnalysisProvider.id, '2026-03-01', '2026-03-02', changed);
+    expect(changedKey).not.toBe(key);
+    await runAnalysis(fakeAnalysisProvider, changedKey, changed);
+    expect(analyze).toHaveBeenCalledTimes(3);
+  });
+
+  it('gom theo tuần khi khoảng ngày vượt quá giới hạn của máy chủ', async () => {
+    const provider = providerReturning({ summary: 'ok', trend: 'ok', recommendation: 'ok' });
+    const days = Array.from({ length: 500 }, (_, i) => ({ date: addDays('2025-01-01', i), orderCount: 1, revenue: 1000 }));
+    await runAnalysis(provider, 'dai', days);
+
+    const [sent, granularity] = vi.mocked(provider.analyze).mock.calls[0];
+    expect(granularity).toBe('week');
+    expect(sent.length).toBeLessThanOrEqual(MAX_ANALYSIS_POINTS);
+    expect(sent.reduce((sum, s) => sum + s.orderCount, 0)).toBe(500);
+  });
+});
@@ -0,0 +1,90 @@
+import { DailyStat } from '../types';
+import { analyzeSalesData } from './geminiService';
+import {
+  ANALYSIS_GRANULARITIES, AnalysisGranularity, CheckedAnalysis, MAX_ANALYSIS_POINTS, checkAnalysisResult
+} from './analysisSchema';
+import { loadFromStorage, saveToStorage } from './storage';
+import { rebucketStats } from './statsService';
+
+/** Nguồn phân tích có thể thay thế: máy chủ Gemini, hoặc mô hình giả cho kiểm thử. Trả về JSON thô. */
+export interface AnalysisProvider {
+  id: string;
+  label: string;
+  analyze: (stats: DailyStat[], granularity: AnalysisGranularity) => Promise<unknown>;
+}
+
+export const apiAnalysisProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  analyze: analyzeSalesData
+};
+
+export interface PreparedAnalysisStats {
+  stats: DailyStat[];
+  granularity: AnalysisGranularity;
+  truncated: boolean; // Gom theo tháng vẫn quá giới hạn: chỉ gửi các tháng gần nhất
+}
+
+/** Gom số liệu theo ngày thành tuần rồi tháng khi vượt quá số mốc máy chủ nhận (MAX_ANALYSIS_POINTS). */
+export const prepareAnalysisStats = (dailyStats: DailyStat[]): PreparedAnalysisStats => {
+  for (const { id } of ANALYSIS_GRANULARITIES) {
+    const stats = rebucketStats(dailyStats, id);
+    if (stats.length <= MAX_ANALYSIS_POINTS) return { stats, granularity: id, truncated: false };
+  }
+  return { stats: rebucketStats(dailyStats, 'month').slice(-MAX_ANALYSIS_POINTS), granularity: 'month', truncated: true };
+};
+
+// --- Cache ---
+// Một kết quả cho mỗi (mô hình, khoảng ngày, dữ liệu); dữ liệu đổi thì mã băm đổi và phải phân tích lại
+
+const CACHE_KEY = 'analysisCache';
+const MAX_CACHE_ENTRIES = 30;
+
+export interface CachedAnalysis extends CheckedAnalysis {
+  createdAt: number;
+}
+
+/** Mã băm FNV-1a (32 bit) của số liệu theo ngày: đủ để phát hiện dữ liệu đã thay đổi. */
+export const hashDailyStats = (dailyStats: DailyStat[]) => {
+  const text = dailyStats.map(d => `${d.date}|${d.orderCount}|${d.revenue}`).join(';');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const getAnalysisCacheKey = (providerId: string, start: string, end: string, dailyStats: DailyStat[]) =>
+  `${providerId}:${start || '*'}:${end || '*'}:${hashDailyStats(dailyStats)}`;
+
+const loadCache = () => loadFromStorage<Record<string, CachedAnalysis>>(CACHE_KEY, {});
+
+export const getCachedAnalysis = (cacheKey: string): CachedAnalysis | null => loadCache()[cacheKey] || null;
+
+const saveCachedAnalysis = (cacheKey: string, entry: CachedAnalysis) => {
+  // Giữ các kết quả mới nhất
+  const entries = Object.entries({ ...loadCache(), [cacheKey]: entry })
+    .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+    .slice(0, MAX_CACHE_ENTRIES);
+  saveToStorage(CACHE_KEY, Object.fromEntries(entries));
+};
+
+/** Phân tích (hoặc lấy từ cache nếu đã có và không ép chạy lại), kiểm tra định dạng rồi lưu cache. Số liệu dài được gom trước khi gửi. */
+export const runAnalysis = async (
+  provider: AnalysisProvider,
+  cacheKey: string,
+  dailyStats: DailyStat[],
+  force = false
+): Promise<CachedAnalysis> => {
+  const cached = force ? null : getCachedAnalysis(cacheKey);
+  if (cached) return cached;
+
+  const { stats, granularity } = prepareAnalysisStats(dailyStats);
+  const checked = checkAnalysisResult(await provider.analyze(stats, granularity));
+  if (!checked) throw new Error('Phản hồi phân tích không đúng định dạng');
+
+  const entry = { ...checked, createdAt: Date.now() };
+  saveCachedAnalysis(cacheKey, entry);
+  return entry;
+};
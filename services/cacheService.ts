@@ -0,0 +1,56 @@
+// Lưu CSV tải thành công gần nhất của mỗi nguồn vào IndexedDB để mở app khi mất mạng
+const DB_NAME = 'thongke-cache';
+const DB_VERSION = 1;
+const CSV_STORE = 'csv';
+
+export interface CachedCSV {
+  sourceId: string;
+  url: string; // Link tại thời điểm tải, bỏ qua cache nếu nguồn đã đổi link
+  csvText: string;
+  fetchedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Trình duyệt không hỗ trợ IndexedDB'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CSV_STORE, { keyPath: 'sourceId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDB().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(CSV_STORE, mode).objectStore(CSV_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+export const saveCachedCSV = async (entry: CachedCSV): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn('Không lưu được cache offline:', error);
+  }
+};
+
+export const loadCachedCSV = async (sourceId: string): Promise<CachedCSV | null> => {
+  try {
+    return (await runRequest<CachedCSV | undefined>('readonly', store => store.get(sourceId))) || null;
+  } catch (error) {
+    console.warn('Không đọc được cache offline:', error);
+    return null;
+  }
+};
@@ -0,0 +1,106 @@
+import { Order, CustomerProfile, RfmSegment } from '../types';
+import { toDateKey, todayKey, daysBetween } from './dateUtils';
+
+export const RFM_SEGMENTS: { id: RfmSegment; label: string; color: string; description: string }[] = [
+  { id: 'vip', label: 'VIP', color: 'bg-yellow-100 text-yellow-800', description: 'Mua gần đây, mua thường xuyên, chi tiêu cao' },
+  { id: 'loyal', label: 'Trung thành', color: 'bg-green-100 text-green-700', description: 'Mua nhiều lần' },
+  { id: 'new', label: 'Khách mới', color: 'bg-blue-100 text-blue-700', description: 'Mua lần đầu trong 30 ngày qua' },
+  { id: 'promising', label: 'Tiềm năng', color: 'bg-purple-100 text-purple-700', description: 'Mới mua gần đây' },
+  { id: 'at_risk', label: 'Có nguy cơ rời bỏ', color: 'bg-orange-100 text-orange-700', description: 'Từng mua nhiều / chi nhiều nhưng lâu rồi chưa quay lại' },
+  { id: 'lost', label: 'Đã rời bỏ', color: 'bg-red-100 text-red-700', description: 'Rất lâu chưa mua lại' },
+  { id: 'regular', label: 'Bình thường', color: 'bg-gray-100 text-gray-700', description: 'Các khách còn lại' },
+];
+
+export const getSegmentInfo = (segment: RfmSegment) => RFM_SEGMENTS.find(s => s.id === segment)!;
+
+// Khách mua lần đầu trong khoảng này được xếp "Khách mới"
+const NEW_CUSTOMER_DAYS = 30;
+
+/**
+ * Điểm 1-5 theo thứ hạng phần trăm trong toàn bộ khách:
+ * tỉ lệ khách có giá trị "kém hơn" khách này (các khách bằng nhau tính một nửa), chia 5 bậc.
+ */
+const scoreByRank = (values: number[], higherIsBetter: boolean) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const countBelow = (v: number) => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < v) lo = mid + 1; else hi = mid;
+    }
+    return lo;
+  };
+  const countAbove = (v: number) => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] <= v) lo = mid + 1; else hi = mid;
+    }
+    return sorted.length - lo;
+  };
+  return (v: number) => {
+    const worse = higherIsBetter ? countBelow(v) : countAbove(v);
+    const ties = sorted.length - countBelow(v) - countAbove(v);
+    return Math.min(5, 1 + Math.floor(((worse + ties / 2) / values.length) * 5));
+  };
+};
+
+const classify = (profile: Pick<CustomerProfile, 'orderCount' | 'recencyDays' | 'rfm'>): RfmSegment => {
+  const { r, f, m } = profile.rfm;
+  if (profile.orderCount === 1 && profile.recencyDays <= NEW_CUSTOMER_DAYS) return 'new';
+  if (r >= 4 && f >= 4 && m >= 4) return 'vip';
+  if (f >= 4 && r >= 3) return 'loyal';
+  if (r <= 2 && (f >= 3 || m >= 3)) return 'at_risk';
+  if (r === 1) return 'lost';
+  if (r >= 4) return 'promising';
+  return 'regular';
+};
+
+/** Tính hồ sơ trọn đời và phân khúc RFM cho mọi khách, theo khóa khách của từng đơn. */
+export const buildCustomerProfiles = (
+  orders: Order[],
+  customerKeyByOrderId: Map<string, string>,
+  referenceDateKey = todayKey()
+): CustomerProfile[] => {
+  const groups = new Map<string, Order[]>();
+  orders.forEach(order => {
+    const key = customerKeyByOrderId.get(order.id) || order.customerName;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(order);
+  });
+
+  const base = Array.from(groups.entries()).map(([key, customerOrders]) => {
+    const sorted = [...customerOrders].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const latest = sorted[0];
+    const first = sorted[sorted.length - 1];
+    const totalRevenue = sorted.reduce((sum, o) => sum + o.amount, 0);
+    const purchaseDays = new Set(sorted.map(o => toDateKey(o.date))).size;
+    const spanDays = daysBetween(toDateKey(first.date), toDateKey(latest.date));
+
+    return {
+      key,
+      name: latest.customerName,
+      facebookLink: sorted.find(o => o.facebookLink)?.facebookLink || '',
+      totalOrders: sorted.reduce((sum, o) => sum + o.quantity, 0),
+      totalRevenue,
+      lastOrderDate: latest.date,
+      firstOrderDate: first.date,
+      orderCount: sorted.length,
+      averageBasket: totalRevenue / sorted.length,
+      orderFrequencyDays: purchaseDays > 1 ? spanDays / (purchaseDays - 1) : null,
+      recencyDays: Math.max(0, daysBetween(toDateKey(latest.date), referenceDateKey)),
+      orders: sorted
+    };
+  });
+
+  const rScore = scoreByRank(base.map(p => p.recencyDays), false);
+  const fScore = scoreByRank(base.map(p => p.orderCount), true);
+  const mScore = scoreByRank(base.map(p => p.totalRevenue), true);
+
+  return base.map(p => {
+    const rfm = { r: rScore(p.recencyDays), f: fScore(p.orderCount), m: mScore(p.totalRevenue) };
+    return { ...p, rfm, segment: classify({ ...p, rfm }) };
+  });
+};
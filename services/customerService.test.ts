@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { CustomerDecisions, findDuplicateSuggestions } from './customerService';
+
+const NO_DECISIONS: CustomerDecisions = { merges: {}, dismissedPairs: [], orderOverrides: {} };
+
+const pairs = (customers: { key: string; name: string }[], decisions = NO_DECISIONS) =>
+  findDuplicateSuggestions(customers, decisions).map(s => [...s.keys, s.reason]);
+
+describe('findDuplicateSuggestions', () => {
+  it('gợi ý tên trùng khi bỏ dấu và tên sai khác một ký tự', () => {
+    expect(pairs([
+      { key: 'a', name: 'Nguyễn Văn An' },
+      { key: 'b', name: 'Minh Thư' },
+      { key: 'c', name: 'nguyen van an' },
+      { key: 'd', name: 'Nguyen Van Ann' }, // thêm một ký tự
+      { key: 'e', name: 'Minh Thu' },
+      { key: 'f', name: 'Nguyen Van Am' }, // thay một ký tự
+    ])).toEqual([
+      ['a', 'c', 'Cùng tên (không dấu)'],
+      ['a', 'd', 'Tên gần giống nhau'],
+      ['a', 'f', 'Tên gần giống nhau'],
+      ['b', 'e', 'Cùng tên (không dấu)'],
+      ['c', 'd', 'Tên gần giống nhau'],
+      ['c', 'f', 'Tên gần giống nhau'],
+    ]);
+  });
+
+  it('tên ngắn chỉ gợi ý khi trùng hẳn, bỏ qua cặp đã từ chối, cùng khóa và cặp đã gợi ý', () => {
+    const decisions = { ...NO_DECISIONS, dismissedPairs: ['v|z'] };
+    expect(pairs([
+      { key: 'x', name: 'Lan' },
+      { key: 'y', name: 'Lann' },
+      { key: 'z', name: 'lan' },
+      { key: 'x', name: 'Làn' },
+      { key: 'v', name: 'Lân' },
+    ], decisions)).toEqual([
+      ['x', 'z', 'Cùng tên (không dấu)'],
+      ['x', 'v', 'Cùng tên (không dấu)'],
+    ]);
+  });
+});
@@ -0,0 +1,223 @@
+import { Order } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+// Quyết định gộp/tách khách hàng do người dùng chọn, lưu cục bộ
+export interface CustomerDecisions {
+  merges: Record<string, string>; // khóa khách -> khóa khách được gộp vào
+  orderOverrides: Record<string, string>; // id đơn -> khóa khách (tách đơn sang khách khác)
+  dismissedPairs: string[]; // cặp "a|b" đã xác nhận không phải cùng một người
+}
+
+export interface DuplicateSuggestion {
+  keys: [string, string];
+  names: [string, string];
+  reason: string;
+}
+
+const DECISIONS_KEY = 'customerDecisions';
+
+export const loadCustomerDecisions = (): CustomerDecisions => ({
+  merges: {},
+  orderOverrides: {},
+  dismissedPairs: [],
+  ...loadFromStorage<Partial<CustomerDecisions>>(DECISIONS_KEY, {})
+});
+
+export const saveCustomerDecisions = (decisions: CustomerDecisions) => {
+  saveToStorage(DECISIONS_KEY, decisions);
+};
+
+/** Bỏ dấu tiếng Việt, chữ thường, gộp khoảng trắng: "  Nguyễn  Văn Á " -> "nguyen van a". */
+export const normalizeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Rút định danh hồ sơ Facebook từ link: profile.php?id=123 -> "123", facebook.com/ten.nguoi.dung -> "ten.nguoi.dung".
+ * Trả về null với link không trỏ tới một hồ sơ cụ thể (VD: "https://facebook.com").
+ */
+export const normalizeFacebookLink = (link: string): string | null => {
+  const text = link.trim();
+  if (!text) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+  if (!/(^|\.)(facebook\.com|fb\.com|fb\.me|messenger\.com)$/i.test(url.hostname)) return null;
+
+  const id = url.searchParams.get('id');
+  if (id) return id;
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  if (segments.length === 0) return null;
+  // facebook.com/people/Ten/123456
+  if (segments[0] === 'people' && segments.length >= 3) return segments[2];
+  if (['profile.php', 'groups', 'pages', 'permalink.php', 'story.php', 'watch', 'photo', 'posts'].includes(segments[0])) return null;
+  return segments[0].toLowerCase();
+};
+
+const identityKeyOf = (order: Order) => {
+  const profile = normalizeFacebookLink(order.facebookLink);
+  return profile ? `fb:${profile}` : `name:${normalizeName(order.customerName)}`;
+};
+
+// Đi theo chuỗi gộp tới khóa cuối cùng (có chặn vòng lặp)
+const followMerges = (key: string, merges: Record<string, string>) => {
+  const seen = new Set<string>();
+  let current = key;
+  while (merges[current] && !seen.has(current)) {
+    seen.add(current);
+    current = merges[current];
+  }
+  return current;
+};
+
+/**
+ * Xác định khách hàng cho từng đơn:
+ * 1. Đơn được tách thủ công dùng khóa đã chọn.
+ * 2. Có link Facebook hồ sơ -> khóa theo hồ sơ; không có -> khóa theo tên đã chuẩn hóa.
+ * 3. Đơn không có link được gán vào hồ sơ Facebook có cùng tên, nếu chỉ có đúng một hồ sơ như vậy.
+ * 4. Áp dụng các lần gộp thủ công.
+ */
+export const resolveCustomerKeys = (orders: Order[], decisions: CustomerDecisions): Map<string, string> => {
+  const baseKeys = new Map<string, string>();
+  const profilesByName = new Map<string, Set<string>>();
+
+  orders.forEach(order => {
+    const key = identityKeyOf(order);
+    baseKeys.set(order.id, key);
+    if (key.startsWith('fb:')) {
+      const name = normalizeName(order.customerName);
+      if (!profilesByName.has(name)) profilesByName.set(name, new Set());
+      profilesByName.get(name)!.add(key);
+    }
+  });
+
+  const result = new Map<string, string>();
+  orders.forEach(order => {
+    let key = decisions.orderOverrides[order.id] || baseKeys.get(order.id)!;
+    if (key.startsWith('name:') && !decisions.orderOverrides[order.id]) {
+      const profiles = profilesByName.get(key.slice(5));
+      if (profiles && profiles.size === 1) key = Array.from(profiles)[0];
+    }
+    result.set(order.id, followMerges(key, decisions.merges));
+  });
+  return result;
+};
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Khoảng cách chỉnh sửa (Levenshtein), dừng sớm khi vượt quá `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const MAX_SUGGESTIONS = 50;
+const MIN_FUZZY_NAME_LENGTH = 6; // Tên ngắn hơn chỉ gợi ý khi trùng hẳn
+
+// Khóa ghép nhóm: tên và (với tên đủ dài) mọi cách bỏ đi một ký tự. Hai tên sai khác một ký tự
+// (thay, thêm, bớt) luôn có chung ít nhất một khóa, nên chỉ cần so các cặp trong cùng nhóm.
+const candidateKeys = (normalized: string) => {
+  const keys = [normalized];
+  if (normalized.length >= MIN_FUZZY_NAME_LENGTH) {
+    for (let i = 0; i < normalized.length; i++) keys.push(normalized.slice(0, i) + normalized.slice(i + 1));
+  }
+  return keys;
+};
+
+/**
+ * Gợi ý các cặp khách có thể là cùng một người: cùng tên (sau khi bỏ dấu) nhưng khác khóa (VD: hai hồ sơ Facebook),
+ * hoặc tên gần giống nhau (sai 1 ký tự, tên từ 6 ký tự). Bỏ qua các cặp người dùng đã từ chối.
+ */
+export const findDuplicateSuggestions = (
+  customers: { key: string; name: string }[],
+  decisions: CustomerDecisions
+): DuplicateSuggestion[] => {
+  const dismissed = new Set(decisions.dismissedPairs);
+  const entries = customers.map(c => ({ ...c, normalized: normalizeName(c.name) }));
+  const suggestions: DuplicateSuggestion[] = [];
+  // Một khóa có thể xuất hiện nhiều lần (nhiều tên khác nhau): mỗi cặp khóa chỉ gợi ý một lần
+  const suggested = new Set<string>();
+
+  const buckets = new Map<string, number[]>();
+  entries.forEach((entry, index) => {
+    candidateKeys(entry.normalized).forEach(key => {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    });
+  });
+
+  for (let i = 0; i < entries.length && suggestions.length < MAX_SUGGESTIONS; i++) {
+    const a = entries[i];
+    // Cùng thứ tự duyệt như so từng cặp, nhưng chỉ với khách chung nhóm
+    const candidates = new Set(candidateKeys(a.normalized).flatMap(key => buckets.get(key)!.filter(j => j > i)));
+    for (const j of Array.from(candidates).sort((x, y) => x - y)) {
+      if (suggestions.length >= MAX_SUGGESTIONS) break;
+      const b = entries[j];
+      const pair = pairKey(a.key, b.key);
+      if (a.key === b.key || dismissed.has(pair) || suggested.has(pair)) continue;
+
+      let reason = '';
+      if (a.normalized === b.normalized) {
+        reason = 'Cùng tên (không dấu)';
+      } else if (a.normalized.length >= MIN_FUZZY_NAME_LENGTH && editDistance(a.normalized, b.normalized, 1) <= 1) {
+        reason = 'Tên gần giống nhau';
+      }
+      if (reason) {
+        suggested.add(pair);
+        suggestions.push({ keys: [a.key, b.key], names: [a.name, b.name], reason });
+      }
+    }
+  }
+  return suggestions;
+};
+
+export const mergeCustomers = (decisions: CustomerDecisions, fromKey: string, intoKey: string): CustomerDecisions => {
+  const target = followMerges(intoKey, decisions.merges);
+  if (target === fromKey) return decisions;
+  return { ...decisions, merges: { ...decisions.merges, [fromKey]: target } };
+};
+
+export const unmergeCustomer = (decisions: CustomerDecisions, key: string): CustomerDecisions => {
+  const merges = { ...decisions.merges };
+  delete merges[key];
+  return { ...decisions, merges };
+};
+
+export const dismissSuggestion = (decisions: CustomerDecisions, a: string, b: string): CustomerDecisions => ({
+  ...decisions,
+  dismissedPairs: [...decisions.dismissedPairs, pairKey(a, b)]
+});
+
+// Tách một đơn ra thành khách hàng riêng (hoặc trả lại khách tự động nếu đã tách)
+export const toggleOrderSplit = (decisions: CustomerDecisions, orderId: string): CustomerDecisions => {
+  const orderOverrides = { ...decisions.orderOverrides };
+  if (orderOverrides[orderId]) {
+    delete orderOverrides[orderId];
+  } else {
+    orderOverrides[orderId] = `split:${orderId}`;
+  }
+  return { ...decisions, orderOverrides };
+};
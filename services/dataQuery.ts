@@ -0,0 +1,120 @@
+import { DATE_PRESETS, DatePresetId, isDatePreset } from './dateRanges';
+
+// Truy vấn có cấu trúc cho "Hỏi dữ liệu": mô hình chỉ dịch câu hỏi sang truy vấn này,
+// việc lọc / gom nhóm / tính toán luôn chạy cục bộ (services/dataQueryExecutor.ts).
+// Dùng chung với máy chủ (server/query.ts) để mô tả lược đồ cho mô hình.
+
+export type QueryMetric = 'revenue' | 'quantity' | 'orderCount' | 'averageOrderValue' | 'customerCount';
+
+export type QueryGroupBy = 'none' | 'customer' | 'product' | 'source' | 'day' | 'week' | 'month' | 'weekday' | 'hour';
+
+// 'current' = khoảng ngày đang xem trên dashboard, 'custom' = dùng start / end
+export type QueryRange = DatePresetId | 'current' | 'custom';
+
+// 'key' = theo thứ tự tự nhiên của nhóm (thời gian, thứ trong tuần...)
+export type QuerySort = 'desc' | 'asc' | 'key';
+
+export type QueryDisplay = 'number' | 'table' | 'chart';
+
+export interface DataQuery {
+  metric: QueryMetric;
+  groupBy: QueryGroupBy;
+  range: QueryRange;
+  start?: string; // YYYY-MM-DD, khi range = 'custom'
+  end?: string;
+  weekdays?: number[]; // Chỉ lấy các thứ này (0 = Chủ nhật ... 6 = Thứ 7)
+  customer?: string; // Tên khách chứa chuỗi này (không phân biệt dấu)
+  text?: string; // Nội dung đơn chứa chuỗi này (không phân biệt dấu)
+  sort: QuerySort;
+  limit: number;
+  display: QueryDisplay;
+}
+
+export const QUERY_METRICS: { id: QueryMetric; label: string; description: string }[] = [
+  { id: 'revenue', label: 'Doanh thu', description: 'tổng tiền' },
+  { id: 'quantity', label: 'Số lượng', description: 'tổng số lượng sản phẩm' },
+  { id: 'orderCount', label: 'Số đơn', description: 'số dòng đơn hàng' },
+  { id: 'averageOrderValue', label: 'Giá trị TB/đơn', description: 'doanh thu chia số đơn' },
+  { id: 'customerCount', label: 'Số khách', description: 'số khách hàng khác nhau' },
+];
+
+export const QUERY_GROUP_BYS: { id: QueryGroupBy; label: string; description: string }[] = [
+  { id: 'none', label: 'Tổng', description: 'không chia nhóm, trả về một con số' },
+  { id: 'customer', label: 'Theo khách', description: 'từng khách hàng' },
+  { id: 'product', label: 'Theo sản phẩm', description: 'từng sản phẩm trong danh mục' },
+  { id: 'source', label: 'Theo nguồn', description: 'từng nguồn dữ liệu / Sheet' },
+  { id: 'day', label: 'Theo ngày', description: 'từng ngày' },
+  { id: 'week', label: 'Theo tuần', description: 'từng tuần (bắt đầu thứ Hai)' },
+  { id: 'month', label: 'Theo tháng', description: 'từng tháng' },
+  { id: 'weekday', label: 'Theo thứ', description: 'thứ trong tuần' },
+  { id: 'hour', label: 'Theo giờ', description: 'giờ trong ngày' },
+];
+
+export const QUERY_RANGES: QueryRange[] = ['current', ...DATE_PRESETS.map(p => p.id), 'custom'];
+
+export const QUERY_SORTS: QuerySort[] = ['desc', 'asc', 'key'];
+
+export const QUERY_DISPLAYS: QueryDisplay[] = ['number', 'table', 'chart'];
+
+export const MAX_QUERY_LIMIT = 100;
+
+// Nhóm theo đối tượng (khách, sản phẩm, nguồn) mặc định xếp giảm dần, nhóm theo thời gian giữ thứ tự thời gian
+const ENTITY_GROUPS: QueryGroupBy[] = ['customer', 'product', 'source'];
+
+export const isEntityGroup = (groupBy: QueryGroupBy) => ENTITY_GROUPS.includes(groupBy);
+
+// Nhóm theo mốc thời gian có thể nhiều hơn MAX_QUERY_LIMIT (ngày trong nhiều năm), khác với thứ / giờ
+const TIME_SERIES_GROUPS: QueryGroupBy[] = ['day', 'week', 'month'];
+
+export const isTimeSeriesGroup = (groupBy: QueryGroupBy) => TIME_SERIES_GROUPS.includes(groupBy);
+
+const isDateKey = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const optionalText = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim().slice(0, 100) : undefined;
+
+/** Kiểm tra chặt truy vấn do mô hình trả về; trường tùy chọn sai kiểu bị bỏ, trường bắt buộc sai thì báo lỗi. */
+export const validateDataQuery = (raw: unknown): { error: string } | { query: DataQuery } => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { error: 'Truy vấn không phải một đối tượng' };
+  const data = raw as Record<string, unknown>;
+
+  const metric = QUERY_METRICS.find(m => m.id === data.metric)?.id;
+  if (!metric) return { error: `Chỉ số không hợp lệ: ${String(data.metric)}` };
+  const groupBy = QUERY_GROUP_BYS.find(g => g.id === (data.groupBy ?? 'none'))?.id;
+  if (!groupBy) return { error: `Cách chia nhóm không hợp lệ: ${String(data.groupBy)}` };
+
+  const range = data.range ?? 'current';
+  if (range !== 'current' && range !== 'custom' && !(typeof range === 'string' && isDatePreset(range))) {
+    return { error: `Khoảng thời gian không hợp lệ: ${String(range)}` };
+  }
+  const query: DataQuery = {
+    metric,
+    groupBy,
+    range: range as QueryRange,
+    sort: QUERY_SORTS.includes(data.sort as QuerySort) ? data.sort as QuerySort : isEntityGroup(groupBy) ? 'desc' : 'key',
+    limit: typeof data.limit === 'number' && Number.isInteger(data.limit) && data.limit > 0
+      ? Math.min(data.limit, MAX_QUERY_LIMIT)
+      : isEntityGroup(groupBy) ? 10 : MAX_QUERY_LIMIT,
+    display: groupBy === 'none'
+      ? 'number'
+      : QUERY_DISPLAYS.includes(data.display as QueryDisplay) && data.display !== 'number'
+        ? data.display as QueryDisplay
+        : isEntityGroup(groupBy) ? 'table' : 'chart'
+  };
+
+  if (query.range === 'custom') {
+    if (!isDateKey(data.start) || !isDateKey(data.end)) return { error: 'Khoảng ngày tùy chọn cần start và end dạng YYYY-MM-DD' };
+    if (data.start > data.end) return { error: 'Ngày bắt đầu sau ngày kết thúc' };
+    query.start = data.start;
+    query.end = data.end;
+  }
+  if (Array.isArray(data.weekdays)) {
+    const weekdays = data.weekdays.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6);
+    if (weekdays.length > 0) query.weekdays = Array.from(new Set(weekdays));
+  }
+  const customer = optionalText(data.customer);
+  if (customer) query.customer = customer;
+  const text = optionalText(data.text);
+  if (text) query.text = text;
+
+  return { query };
+};
@@ -0,0 +1,165 @@
+import { Order, Product, ProductMatch } from '../types';
+import { DataQuery, QueryDisplay, QUERY_GROUP_BYS, QUERY_METRICS, isTimeSeriesGroup } from './dataQuery';
+import { DateRange, getBucketKey, formatBucketLabel, filterOrdersByRange } from './statsService';
+import { getDateFilterLabel, resolveDatePreset } from './dateRanges';
+import { toDateKey, getWeekday, getZonedParts, formatDateKey } from './dateUtils';
+import { normalizeName } from './customerService';
+
+export interface QueryContext {
+  orders: Order[];
+  today: string;
+  currentRange: DateRange; // Khoảng ngày đang xem trên dashboard (rỗng = tất cả)
+  customerKeyByOrderId: Map<string, string>;
+  products: Product[];
+  productMatches: Map<string, ProductMatch[]>;
+}
+
+export interface QueryResultRow {
+  key: string;
+  label: string;
+  value: number;
+}
+
+export interface QueryResult {
+  query: DataQuery;
+  metricLabel: string;
+  groupLabel: string;
+  rangeLabel: string;
+  isCurrency: boolean;
+  total: number; // Chỉ số trên toàn bộ đơn khớp điều kiện (không chia nhóm)
+  matchedOrders: number;
+  rows: QueryResultRow[];
+  groupCount: number; // Số nhóm trước khi cắt theo limit; lớn hơn rows.length khi kết quả bị cắt
+  keptLatest: boolean; // Nhóm theo thời gian bị cắt: giữ các mốc gần nhất thay vì các mốc đầu
+  display: QueryDisplay;
+}
+
+// Thứ trong tuần hiển thị từ thứ Hai đến Chủ nhật
+const WEEKDAY_LABELS = ['Chủ nhật', 'Thứ 2', 'Thứ 3', 'Thứ 4', 'Thứ 5', 'Thứ 6', 'Thứ 7'];
+
+interface Accumulator {
+  label: string;
+  revenue: number;
+  quantity: number;
+  orderIds: Set<string>;
+  customers: Set<string>;
+}
+
+const createAccumulator = (label: string): Accumulator => ({ label, revenue: 0, quantity: 0, orderIds: new Set(), customers: new Set() });
+
+const metricValue = (acc: Accumulator, metric: DataQuery['metric']) => {
+  switch (metric) {
+    case 'revenue': return acc.revenue;
+    case 'quantity': return acc.quantity;
+    case 'orderCount': return acc.orderIds.size;
+    case 'averageOrderValue': return acc.orderIds.size > 0 ? acc.revenue / acc.orderIds.size : 0;
+    case 'customerCount': return acc.customers.size;
+  }
+};
+
+export const resolveQueryRange = (query: DataQuery, context: QueryContext): { range: DateRange; label: string } => {
+  if (query.range === 'custom') {
+    return { range: { start: query.start!, end: query.end! }, label: `${formatDateKey(query.start!)} - ${formatDateKey(query.end!)}` };
+  }
+  const range = query.range === 'current' ? context.currentRange : resolveDatePreset(query.range, context.today);
+  if (!range.start && !range.end) return { range, label: query.range === 'current' ? 'Toàn bộ thời gian' : getDateFilterLabel(query.range) };
+  const dates = `${range.start ? formatDateKey(range.start) : '...'} - ${range.end ? formatDateKey(range.end) : '...'}`;
+  return { range, label: query.range === 'current' ? dates : `${getDateFilterLabel(query.range)} (${dates})` };
+};
+
+/** Chạy truy vấn trên dữ liệu đã tải: lọc, chia nhóm và tính chỉ số hoàn toàn cục bộ. */
+export const executeDataQuery = (query: DataQuery, context: QueryContext): QueryResult => {
+  const { range, label: rangeLabel } = resolveQueryRange(query, context);
+  const customerQuery = query.customer ? normalizeName(query.customer) : '';
+  const textQuery = query.text ? normalizeName(query.text) : '';
+
+  const matched = (range.start || range.end ? filterOrdersByRange(context.orders, range.start, range.end) : context.orders)
+    .filter(order => {
+      if (query.weekdays && !query.weekdays.includes(getWeekday(toDateKey(order.date)))) return false;
+      if (customerQuery && !normalizeName(order.customerName).includes(customerQuery)) return false;
+      if (textQuery && !normalizeName(order.details).includes(textQuery)) return false;
+      return true;
+    });
+
+  const customerKeyOf = (order: Order) => context.customerKeyByOrderId.get(order.id) || normalizeName(order.customerName);
+  const productNames = new Map(context.products.map(p => [p.id, p.name]));
+
+  const total = createAccumulator('');
+  const groups = new Map<string, Accumulator>();
+  const add = (key: string, label: string, order: Order, revenue: number, quantity: number) => {
+    const acc = groups.get(key) || createAccumulator(label);
+    acc.revenue += revenue;
+    acc.quantity += quantity;
+    acc.orderIds.add(order.id);
+    acc.customers.add(customerKeyOf(order));
+    groups.set(key, acc);
+  };
+
+  // Đơn sắp theo thời gian để nhãn khách là tên ở đơn mới nhất
+  [...matched].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()).forEach(order => {
+    total.revenue += order.amount;
+    total.quantity += order.quantity;
+    total.orderIds.add(order.id);
+    total.customers.add(customerKeyOf(order));
+
+    const dateKey = toDateKey(order.date);
+    switch (query.groupBy) {
+      case 'none':
+        break;
+      case 'customer': {
+        const key = customerKeyOf(order);
+        add(key, order.customerName, order, order.amount, order.quantity);
+        groups.get(key)!.label = order.customerName;
+        break;
+      }
+      case 'product':
+        // Một đơn có thể gồm nhiều sản phẩm: doanh thu đã được chia theo sản phẩm khi nhận diện
+        (context.productMatches.get(order.id) || []).forEach(match => {
+          add(match.productId, productNames.get(match.productId) || match.productId, order, match.revenue, match.quantity);
+        });
+        break;
+      case 'source':
+        add(order.sourceId, order.sourceName, order, order.amount, order.quantity);
+        break;
+      case 'day':
+      case 'week':
+      case 'month': {
+        const key = getBucketKey(dateKey, query.groupBy);
+        add(key, formatBucketLabel(key, query.groupBy, true), order, order.amount, order.quantity);
+        break;
+      }
+      case 'weekday': {
+        const weekday = getWeekday(dateKey);
+        add(String((weekday + 6) % 7), WEEKDAY_LABELS[weekday], order, order.amount, order.quantity);
+        break;
+      }
+      case 'hour': {
+        const hour = getZonedParts(order.date).hour;
+        add(String(hour).padStart(2, '0'), `${hour}h - ${hour + 1}h`, order, order.amount, order.quantity);
+        break;
+      }
+    }
+  });
+
+  const sorted = Array.from(groups, ([key, acc]) => ({ key, label: acc.label, value: metricValue(acc, query.metric) }))
+    .sort((a, b) => query.sort === 'key'
+      ? a.key.localeCompare(b.key)
+      : query.sort === 'asc' ? a.value - b.value : b.value - a.value);
+  // Chuỗi thời gian dài hơn limit: giữ các mốc gần nhất (vẫn theo thứ tự thời gian)
+  const keptLatest = query.sort === 'key' && isTimeSeriesGroup(query.groupBy) && sorted.length > query.limit;
+  const rows = keptLatest ? sorted.slice(-query.limit) : sorted.slice(0, query.limit);
+
+  return {
+    query,
+    metricLabel: QUERY_METRICS.find(m => m.id === query.metric)!.label,
+    groupLabel: QUERY_GROUP_BYS.find(g => g.id === query.groupBy)!.label,
+    rangeLabel,
+    isCurrency: query.metric === 'revenue' || query.metric === 'averageOrderValue',
+    total: metricValue(total, query.metric),
+    matchedOrders: matched.length,
+    rows,
+    groupCount: sorted.length,
+    keptLatest,
+    display: query.display
+  };
+};
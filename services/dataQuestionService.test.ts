@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { Order } from '../types';
+import { QueryGroupBy, QueryMetric, QueryRange, QuerySort, validateDataQuery } from './dataQuery';
+import { QueryContext, executeDataQuery } from './dataQueryExecutor';
+import { QuestionProvider } from './dataQuestionService';
+import { DatePresetId } from './dateRanges';
+import { addDays } from './dateUtils';
+import { normalizeName } from './customerService';
+
+// --- Bộ dịch giả: luật từ khóa trên câu hỏi đã bỏ dấu, cùng câu hỏi luôn ra cùng truy vấn ---
+
+const METRIC_RULES: [RegExp, QueryMetric][] = [
+  [/trung binh/, 'averageOrderValue'],
+  [/(bao nhieu|so) khach/, 'customerCount'],
+  [/(bao nhieu|so) don/, 'orderCount'],
+  [/so luong|bao nhieu (cai|san pham|sp)/, 'quantity'],
+];
+
+const GROUP_RULES: [RegExp, QueryGroupBy][] = [
+  [/khach( hang)? nao|top( \d+)? khach|theo khach/, 'customer'],
+  [/san pham|mat hang|mau nao/, 'product'],
+  [/nguon|sheet nao/, 'source'],
+  [/gio nao|khung gio|theo gio/, 'hour'],
+  [/thu may|theo thu|ngay nao trong tuan/, 'weekday'],
+  [/theo tuan|tuan nao/, 'week'],
+  [/theo thang|thang nao|tung thang/, 'month'],
+  [/theo ngay|ngay nao|tung ngay|moi ngay/, 'day'],
+];
+
+// Cụm dài trước để "7 ngay qua" không bị bắt nhầm thành "hom nay"...
+const RANGE_RULES: [RegExp, DatePresetId][] = [
+  [/hom nay/, 'today'],
+  [/hom qua/, 'yesterday'],
+  [/tuan truoc/, 'lastWeek'],
+  [/tuan nay/, 'thisWeek'],
+  [/thang truoc/, 'lastMonth'],
+  [/thang nay/, 'thisMonth'],
+  [/quy nay/, 'thisQuarter'],
+  [/nam nay/, 'thisYear'],
+  [/90 ngay/, 'last90'],
+  [/30 ngay/, 'last30'],
+  [/7 ngay/, 'last7'],
+  [/tat ca|tu truoc den nay|toan bo/, 'all'],
+];
+
+const WEEKDAY_WORDS: Record<string, number> = { '2': 1, hai: 1, '3': 2, ba: 2, '4': 3, tu: 3, '5': 4, nam: 4, '6': 5, sau: 5, '7': 6, bay: 6 };
+
+// "thứ 7", "thứ bảy", "chủ nhật"; bỏ qua chữ "thu" trong "doanh thu"
+const WEEKDAY_PATTERN = /(?<!doanh )\bthu (2|3|4|5|6|7|hai|ba|tu|nam|sau|bay)\b|\bchu nhat\b|\bcn\b/g;
+
+const parseQuestionLocally = (question: string) => {
+  const q = normalizeName(question).replace(/[?!.,]/g, ' ').replace(/\s+/g, ' ');
+
+  const weekdays = Array.from(q.matchAll(WEEKDAY_PATTERN), m => m[1] ? WEEKDAY_WORDS[m[1]] : 0);
+  const top = q.match(/top (\d+)/);
+  const asksExtreme = /nhieu nhat|cao nhat|it nhat|thap nhat|top/.test(q);
+  const sort: QuerySort | undefined = /it nhat|thap nhat/.test(q) ? 'asc' : asksExtreme ? 'desc' : undefined;
+  let groupBy = GROUP_RULES.find(([pattern]) => pattern.test(q))?.[1] || 'none';
+  // "doanh thu thứ 7 so với chủ nhật": so sánh giữa các thứ
+  if (groupBy === 'none' && weekdays.length > 1) groupBy = 'weekday';
+
+  return {
+    metric: METRIC_RULES.find(([pattern]) => pattern.test(q))?.[1] || 'revenue',
+    groupBy,
+    range: (RANGE_RULES.find(([pattern]) => pattern.test(q))?.[1] || 'current') as QueryRange,
+    ...(weekdays.length > 0 ? { weekdays } : {}),
+    ...(sort ? { sort } : {}),
+    ...(top ? { limit: Number(top[1]) } : asksExtreme && groupBy !== 'none' ? { limit: 5 } : {})
+  };
+};
+
+const fakeQuestionProvider: QuestionProvider = {
+  id: 'fake',
+  label: 'Bộ dịch giả',
+  translate: async (question) => parseQuestionLocally(question)
+};
+
+const TODAY = '2026-03-18'; // Thứ 4; tuần trước: 09/03 - 15/03
+
+// Đơn lúc 10h sáng giờ Việt Nam của ngày `dateKey`
+const order = (id: string, dateKey: string, customerName: string, amount: number): Order => ({
+  id, date: `${dateKey}T03:00:00.000Z`, amount, quantity: 1, customerName, details: '', facebookLink: '',
+  originalData: {} as Order['originalData'], sourceId: 'src', sourceName: 'Sheet', rowNumber: 2, warnings: []
+});
+
+const context = (orders: Order[]): QueryContext => ({
+  orders,
+  today: TODAY,
+  currentRange: { start: '', end: '' },
+  customerKeyByOrderId: new Map(),
+  products: [],
+  productMatches: new Map()
+});
+
+const ORDERS = [
+  order('o1', '2026-03-10', 'An', 500000),
+  order('o2', '2026-03-14', 'Bình', 300000), // Thứ 7
+  order('o3', '2026-03-15', 'Bình', 400000), // Chủ nhật
+  order('o4', '2026-03-16', 'An', 2000000), // Tuần này
+  order('o5', '2026-03-07', 'Chi', 150000), // Thứ 7 tuần trước nữa
+];
+
+// Câu hỏi -> bộ dịch giả -> kiểm tra truy vấn -> chạy cục bộ, giống components/DataChat.tsx
+const ask = async (question: string, orders = ORDERS) => {
+  const validated = validateDataQuery(await fakeQuestionProvider.translate(question, TODAY));
+  if ('error' in validated) throw new Error(validated.error);
+  return executeDataQuery(validated.query, context(orders));
+};
+
+describe('parseQuestionLocally', () => {
+  it('hiểu câu hỏi khách mua nhiều nhất tuần trước', () => {
+    expect(parseQuestionLocally('Khách nào mua nhiều nhất tuần trước?')).toEqual({
+      metric: 'revenue', groupBy: 'customer', range: 'lastWeek', sort: 'desc', limit: 5
+    });
+  });
+
+  it('so sánh giữa các thứ, không nhầm "doanh thu" với "thứ"', () => {
+    expect(parseQuestionLocally('doanh thu thứ 7 so với chủ nhật')).toEqual({
+      metric: 'revenue', groupBy: 'weekday', range: 'current', weekdays: [6, 0]
+    });
+  });
+
+  it('nhận chỉ số, top N và khoảng ngày', () => {
+    expect(parseQuestionLocally('top 3 khách 30 ngày qua')).toMatchObject({ groupBy: 'customer', range: 'last30', limit: 3, sort: 'desc' });
+    expect(parseQuestionLocally('bao nhiêu đơn hôm nay')).toEqual({ metric: 'orderCount', groupBy: 'none', range: 'today' });
+    expect(parseQuestionLocally('giá trị trung bình mỗi đơn theo tháng')).toMatchObject({ metric: 'averageOrderValue', groupBy: 'month' });
+  });
+});
+
+describe('fakeQuestionProvider', () => {
+  it('trả về cùng truy vấn với bộ dịch cục bộ, luôn hợp lệ', async () => {
+    const questions = ['khách nào mua nhiều nhất tuần trước', 'thứ 7 so với chủ nhật', 'câu hỏi không liên quan'];
+    for (const question of questions) {
+      const raw = await fakeQuestionProvider.translate(question, TODAY);
+      expect(raw).toEqual(parseQuestionLocally(question));
+      expect(validateDataQuery(raw)).toHaveProperty('query');
+    }
+  });
+});
+
+describe('câu hỏi mẫu qua validateDataQuery và executeDataQuery', () => {
+  it('khách nào mua nhiều nhất tuần trước', async () => {
+    const result = await ask('khách nào mua nhiều nhất tuần trước');
+    expect(result.query).toMatchObject({ display: 'table', limit: 5 });
+    expect(result.rangeLabel).toContain('09/03/2026 - 15/03/2026');
+    expect(result.matchedOrders).toBe(3);
+    expect(result.rows.map(r => [r.label, r.value])).toEqual([['Bình', 700000], ['An', 500000]]);
+  });
+
+  it('thứ 7 so với chủ nhật', async () => {
+    const result = await ask('thứ 7 so với chủ nhật');
+    expect(result.query).toMatchObject({ sort: 'key', display: 'chart' });
+    expect(result.total).toBe(850000);
+    expect(result.rows.map(r => [r.label, r.value])).toEqual([['Thứ 7', 450000], ['Chủ nhật', 400000]]);
+  });
+
+  it('chuỗi ngày dài hơn giới hạn giữ các ngày gần nhất và báo đã cắt', async () => {
+    const orders = Array.from({ length: 150 }, (_, i) => order(`d${i}`, addDays('2025-10-01', i), 'An', 1000 * (i + 1)));
+    const result = await ask('doanh thu theo ngày', orders);
+    expect(result.groupCount).toBe(150);
+    expect(result.rows).toHaveLength(100);
+    expect(result.keptLatest).toBe(true);
+    expect(result.rows[0].key).toBe(addDays('2025-10-01', 50));
+    expect(result.rows[99].key).toBe(addDays('2025-10-01', 149));
+  });
+
+  it('nhóm theo khách bị cắt vẫn giữ các nhóm đứng đầu', async () => {
+    const result = await ask('top 1 khách');
+    expect(result.rows.map(r => r.label)).toEqual(['An']);
+    expect(result.groupCount).toBe(3);
+    expect(result.keptLatest).toBe(false);
+  });
+});
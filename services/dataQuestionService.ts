@@ -0,0 +1,14 @@
+import { translateQuestion } from './geminiService';
+
+/** Bộ dịch câu hỏi -> truy vấn, có thể thay thế: mô hình qua máy chủ, hoặc bộ dịch giả theo từ khóa. Trả về JSON thô. */
+export interface QuestionProvider {
+  id: string;
+  label: string;
+  translate: (question: string, today: string) => Promise<unknown>;
+}
+
+export const apiQuestionProvider: QuestionProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  translate: translateQuestion
+};
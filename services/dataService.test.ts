@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeCSV, parseSalesCSV, parseDate, buildOrderKey } from './dataService';
+import { DataSource } from '../types';
+
+const SOURCE: DataSource = { id: 'src', name: 'Sheet chính', url: '', type: 'csv' };
+const HEADER = 'Thời Gian,Tên Khách,Số Đơn,Tổng Tiền,Chi Tiết,Link Facebook';
+
+const tokenize = (...args: Parameters<typeof tokenizeCSV>) => Array.from(tokenizeCSV(...args));
+
+describe('tokenizeCSV', () => {
+  it('bỏ BOM UTF-8 ở đầu file', () => {
+    expect(tokenize('\uFEFFa,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('tự nhận dấu phân cách ; và tab', () => {
+    expect(tokenize('a;b;c\n1;"2;3";4')).toEqual([['a', 'b', 'c'], ['1', '2;3', '4']]);
+    expect(tokenize('a\tb\n1,5\t2')).toEqual([['a', 'b'], ['1,5', '2']]);
+  });
+
+  it('giữ xuống dòng (LF, CRLF) trong ô có ngoặc kép', () => {
+    expect(tokenize('a,b\r\n1,"dòng 1\r\ndòng 2\ndòng 3"\r\n2,x')).toEqual([
+      ['a', 'b'],
+      ['1', 'dòng 1\r\ndòng 2\ndòng 3'],
+      ['2', 'x'],
+    ]);
+  });
+
+  it('đọc "" thành một dấu ngoặc kép', () => {
+    expect(tokenize('a\n"áo ""sơ mi"" trắng"\n""')).toEqual([['a'], ['áo "sơ mi" trắng'], ['']]);
+  });
+
+  it('chấp nhận kết thúc dòng CR và khoảng trắng trước dấu mở ngoặc', () => {
+    expect(tokenize('a,b\r1, "x,y"')).toEqual([['a', 'b'], ['1', 'x,y']]);
+  });
+
+  it('giữ ngoặc kép nằm giữa ô không có ngoặc', () => {
+    expect(tokenize('a,b\nsize 5" x,2')).toEqual([['a', 'b'], ['size 5" x', '2']]);
+  });
+
+  it('ngoặc kép chưa đóng không nuốt phần còn lại của file và được báo lại', () => {
+    const issues: [number, number][] = [];
+    const rows = tokenize('a,b\n"unterminated,1\n2,3', ',', (record, cell) => issues.push([record, cell]));
+    expect(rows).toEqual([['a', 'b'], ['"unterminated', '1'], ['2', '3']]);
+    expect(issues).toEqual([[1, 0]]);
+  });
+
+  it('giữ ô trống và dòng trống', () => {
+    expect(tokenize('a,b,c\n,,\n\n1,,3')).toEqual([['a', 'b', 'c'], ['', '', ''], [''], ['1', '', '3']]);
+  });
+});
+
+describe('parseDate', () => {
+  it('đọc ngày kiểu Việt Nam theo múi giờ kinh doanh (UTC+7)', () => {
+    expect(parseDate('15/03/2026 14:30:00')).toEqual({ value: '2026-03-15T07:30:00.000Z' });
+    expect(parseDate('5/3/26')).toEqual({ value: '2026-03-04T17:00:00.000Z' });
+  });
+
+  it('đọc ngày ISO, có hoặc không có múi giờ', () => {
+    expect(parseDate('2026-03-15')).toEqual({ value: '2026-03-14T17:00:00.000Z' });
+    expect(parseDate('2026-03-15T14:30:00Z')).toEqual({ value: '2026-03-15T14:30:00.000Z' });
+    expect(parseDate('2026-03-15T14:30:00+09:00')).toEqual({ value: '2026-03-15T05:30:00.000Z' });
+  });
+
+  it('ô trống hoặc ngày không tồn tại được thay giá trị và có ghi chú', () => {
+    for (const value of ['', '31/02/2026', 'hôm qua']) {
+      const parsed = parseDate(value);
+      expect(parsed.assumed).toBeTruthy();
+      expect(Number.isNaN(new Date(parsed.value).getTime())).toBe(false);
+    }
+  });
+});
+
+describe('buildOrderKey', () => {
+  const row = { orderCode: '', date: '15/03/2026', customerName: 'Nguyễn Văn A', amount: '150.000', details: 'Áo  thun' };
+
+  it('ưu tiên mã đơn', () => {
+    expect(buildOrderKey({ ...row, orderCode: 'DH001' })).toBe('code-DH001');
+  });
+
+  it('băm nội dung, không phân biệt hoa thường và khoảng trắng thừa', () => {
+    expect(buildOrderKey(row)).toBe(buildOrderKey({ ...row, customerName: ' nguyễn  văn a ', details: 'áo thun' }));
+    expect(buildOrderKey(row)).not.toBe(buildOrderKey({ ...row, amount: '160.000' }));
+    expect(buildOrderKey(row)).toMatch(/^h-/);
+  });
+});
+
+describe('parseSalesCSV', () => {
+  it('đọc dòng thực tế: BOM, dấu ;, số tiền có dấu chấm, chi tiết nhiều dòng', () => {
+    const csv = '\uFEFFThời Gian;Tên Khách;Số Đơn;Tổng Tiền;Chi Tiết\n'
+      + '15/03/2026 09:00;Nguyễn Văn A;2;"1.250.000 đ";"Áo ""polo""\nsize L"\n';
+    const [order] = parseSalesCSV(csv, SOURCE);
+    expect(order).toMatchObject({
+      customerName: 'Nguyễn Văn A',
+      quantity: 2,
+      amount: 1250000,
+      details: 'Áo "polo"\nsize L',
+      date: '2026-03-15T02:00:00.000Z',
+      sourceId: 'src',
+      rowNumber: 2,
+      warnings: []
+    });
+  });
+
+  it('đánh dấu dòng trùng lặp bằng id có hậu tố và duplicateOf', () => {
+    const line = '15/03/2026,Trần B,1,200000,Quần jean,';
+    const orders = parseSalesCSV([HEADER, line, line, '16/03/2026,Trần B,1,200000,Quần jean,'].join('\n'), SOURCE);
+    expect(orders).toHaveLength(3);
+    expect(orders[1].id).toBe(`${orders[0].id}-2`);
+    expect(orders[1].duplicateOf).toBe(orders[0].id);
+    expect(orders[2].duplicateOf).toBeUndefined();
+    expect(orders[2].id).not.toBe(orders[0].id);
+  });
+
+  it('ô trống được thay giá trị mặc định kèm cảnh báo, số dòng khớp Sheet', () => {
+    const orders = parseSalesCSV([HEADER, '', '15/03/2026,,,,,', ',,,,,', '15/03/2026,Lê C,abc,xyz,,'].join('\n'), SOURCE);
+    expect(orders).toHaveLength(2);
+
+    const [blank, invalid] = orders;
+    expect(blank.rowNumber).toBe(3);
+    expect(blank.customerName).toBe('Khách 1');
+    expect(blank.quantity).toBe(1);
+    expect(blank.amount).toBe(0);
+    expect(blank.warnings.map(w => w.field).sort()).toEqual(['amount', 'customerName', 'quantity']);
+
+    expect(invalid.rowNumber).toBe(5);
+    expect(invalid.warnings.map(w => [w.field, w.rawValue])).toEqual([['amount', 'xyz'], ['quantity', 'abc']]);
+  });
+
+  it('ngoặc kép chưa đóng thành cảnh báo của dòng, các dòng sau vẫn được đọc', () => {
+    const orders = parseSalesCSV([HEADER, '15/03/2026,Phạm D,1,100000,"áo thiếu ngoặc,', '16/03/2026,Võ E,1,50000,quần,'].join('\n'), SOURCE);
+    expect(orders.map(o => o.customerName)).toEqual(['Phạm D', 'Võ E']);
+    expect(orders[0].details).toBe('"áo thiếu ngoặc');
+    expect(orders[0].warnings).toMatchObject([{ field: 'details', column: 'chi tiết' }]);
+  });
+
+  it('trả về rỗng với file trống', () => {
+    expect(parseSalesCSV('\n\n', SOURCE)).toEqual([]);
+  });
+});
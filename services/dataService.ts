@@ -1,119 +1,383 @@
-import { Order } from '../types';
+import { Order, DataSource, OrderField, ColumnMapping, ParseWarning } from '../types';
+import { getSourceCsvUrl } from './sourceService';
+import { parseDateTime } from './dateUtils';
+import { saveCachedCSV, loadCachedCSV } from './cacheService';
 
-// Link Google Sheet Published CSV
-const SPREADSHEET_URL = 'https://docs.google.com/spreadsheets/d/e/2PACX-1vSIGSB-s0s175VQKxGEwebzkcw5dRiRm152QKSXSN4KOymLgYGYCoZCJRwVV_1jVy9gcN2YrHm71bBr/pub?output=csv';
+export type CSVDelimiter = ',' | ';' | '\t';
 
-const parseCSVLine = (text: string) => {
-  const result = [];
-  let curValue = '';
+const CSV_DELIMITERS: CSVDelimiter[] = [',', ';', '\t'];
+
+/**
+ * Đoán dấu phân cách dựa trên dòng tiêu đề: đếm `,` `;` và tab nằm ngoài dấu ngoặc kép.
+ * Mặc định là dấu phẩy.
+ */
+export const detectDelimiter = (text: string): CSVDelimiter => {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
   let inQuote = false;
   for (let i = 0; i < text.length; i++) {
     const char = text[i];
     if (char === '"') {
       inQuote = !inQuote;
-    } else if (char === ',' && !inQuote) {
-      result.push(curValue);
-      curValue = '';
+    } else if (!inQuote && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuote && char in counts) {
+      counts[char]++;
+    }
+  }
+  return CSV_DELIMITERS.reduce((best, d) => counts[d] > counts[best] ? d : best, ',' as CSVDelimiter);
+};
+
+/**
+ * Tokenizer CSV theo RFC 4180, đọc từng ký tự và trả về từng bản ghi (mảng ô).
+ * - Ô trong ngoặc kép có thể chứa dấu phân cách, xuống dòng (LF/CRLF) và `""` (ngoặc kép thoát).
+ * - Chấp nhận kết thúc dòng LF, CRLF hoặc CR; bỏ BOM UTF-8 ở đầu file.
+ * - Dấu ngoặc kép xuất hiện giữa ô không có ngoặc được giữ nguyên như ký tự thường.
+ * - Khoảng trắng trước dấu mở ngoặc được bỏ qua.
+ * - Ngoặc mở không bao giờ được đóng: đọc lại từ dấu ngoặc đó như ô không có ngoặc (giữ `"` là ký tự thường)
+ *   để không nuốt phần còn lại của file, và báo qua `onUnterminatedQuote` (chỉ số bản ghi, chỉ số ô).
+ */
+export function* tokenizeCSV(
+  text: string,
+  delimiter: CSVDelimiter = detectDelimiter(text),
+  onUnterminatedQuote?: (recordIndex: number, cellIndex: number) => void
+): Generator<string[]> {
+  let i = text.charCodeAt(0) === 0xFEFF ? 1 : 0;
+  let row: string[] = [];
+  let field = '';
+  let inQuote = false;
+  let fieldStarted = false; // ô hiện tại đã có nội dung / mở ngoặc hay chưa
+  let quoteStart = -1; // Vị trí dấu mở ngoặc của ô đang đọc
+  let recordIndex = 0;
+
+  while (i < text.length || inQuote) {
+    if (i >= text.length) {
+      onUnterminatedQuote?.(recordIndex, row.length);
+      field = '"';
+      inQuote = false;
+      i = quoteStart + 1;
+      continue;
+    }
+    const char = text[i];
+
+    if (inQuote) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuote = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && !fieldStarted) {
+      // Bỏ khoảng trắng đứng trước dấu mở ngoặc (VD: `a, "b"`)
+      field = '';
+      inQuote = true;
+      fieldStarted = true;
+      quoteStart = i;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+      fieldStarted = false;
+    } else if (char === '\n' || char === '\r') {
+      row.push(field);
+      yield row;
+      recordIndex++;
+      row = [];
+      field = '';
+      fieldStarted = false;
+      if (char === '\r' && text[i + 1] === '\n') i++;
     } else {
-      curValue += char;
+      field += char;
+      if (char !== ' ' && char !== '\t') fieldStarted = true;
     }
+    i++;
+  }
+
+  // Bản ghi cuối không có xuống dòng kết thúc
+  if (fieldStarted || field !== '' || row.length > 0) {
+    row.push(field);
+    yield row;
+  }
+}
+
+// Đọc toàn bộ CSV, bỏ các dòng trống hoàn toàn
+export const parseCSV = (text: string, delimiter?: CSVDelimiter): string[][] => {
+  const rows: string[][] = [];
+  for (const row of tokenizeCSV(text, delimiter)) {
+    if (row.some(cell => cell.trim() !== '')) rows.push(row);
   }
-  result.push(curValue);
-  return result.map(v => v.trim().replace(/^"|"$/g, '').trim());
+  return rows;
 };
 
-const parseCurrency = (value: string): number => {
-  if (!value) return 0;
+// Kết quả đọc một ô: `assumed` mô tả giá trị thay thế khi ô trống hoặc không hợp lệ
+export interface ParsedValue<T> {
+  value: T;
+  assumed?: string;
+}
+
+const parseCurrency = (value: string): ParsedValue<number> => {
+  if (!value) return { value: 0, assumed: 'Ô trống, tính là 0 đ' };
   const cleanStr = value.replace(/[^0-9.,]/g, '');
-  if (!cleanStr) return 0;
+  if (!cleanStr) return { value: 0, assumed: 'Không phải số tiền, tính là 0 đ' };
 
+  let amount: number;
   if (cleanStr.includes('.') && !cleanStr.includes(',')) {
-    return parseFloat(cleanStr.replace(/\./g, ''));
+    amount = parseFloat(cleanStr.replace(/\./g, ''));
+  } else if (cleanStr.includes(',') && !cleanStr.includes('.')) {
+    amount = parseFloat(cleanStr.replace(/,/g, ''));
+  } else {
+    amount = parseFloat(cleanStr.replace(/\./g, '').replace(/,/g, '.'));
   }
-  if (cleanStr.includes(',') && !cleanStr.includes('.')) {
-    return parseFloat(cleanStr.replace(/,/g, ''));
-  }
-  
-  return parseFloat(cleanStr.replace(/\./g, '').replace(/,/g, '.'));
+
+  if (isNaN(amount)) return { value: 0, assumed: 'Không phải số tiền, tính là 0 đ' };
+  return { value: amount };
 };
 
-const parseNumber = (value: string): number => {
-  if (!value) return 1; // Default to 1 if empty
+const parseNumber = (value: string): ParsedValue<number> => {
+  if (!value) return { value: 1, assumed: 'Ô trống, mặc định 1' };
   const cleanStr = value.replace(/[^0-9]/g, '');
-  return parseInt(cleanStr, 10) || 1;
+  const quantity = parseInt(cleanStr, 10);
+  if (!quantity) return { value: 1, assumed: 'Số lượng không hợp lệ, mặc định 1' };
+  return { value: quantity };
 };
 
-const parseDate = (value: string): string => {
-  if (!value) return new Date().toISOString();
+export const parseDate = (value: string): ParsedValue<string> => {
+  if (!value) return { value: new Date().toISOString(), assumed: 'Ô trống, dùng thời điểm tải dữ liệu' };
   
-  // Xử lý định dạng VN: DD/MM/YYYY HH:mm:ss hoặc DD/MM/YYYY
-  const parts = value.match(/(\d{1,2})[\/\-\.](\d{1,2})[\/\-\.](\d{4})/);
-  if (parts) {
-    const d = new Date(`${parts[3]}-${parts[2]}-${parts[1]}`);
-    if (!isNaN(d.getTime())) return d.toISOString();
-  }
+  // Định dạng VN (DD/MM/YYYY HH:mm:ss) hoặc ISO, giờ hiểu theo múi giờ kinh doanh
+  const parsed = parseDateTime(value);
+  if (parsed) return { value: parsed.toISOString() };
 
-  const d = new Date(value);
-  if (!isNaN(d.getTime())) {
-    return d.toISOString();
-  }
-  return new Date().toISOString();
+  return { value: new Date().toISOString(), assumed: 'Không đọc được ngày, dùng thời điểm tải dữ liệu' };
 };
 
-export const fetchSalesData = async (): Promise<Order[]> => {
-  try {
-    const response = await fetch(SPREADSHEET_URL);
-    if (!response.ok) {
-      throw new Error(`Lỗi kết nối: ${response.status}`);
+// Cột: Thời Gian, Tên Khách, Số Đơn, Tổng Tiền, Chi Tiết, Link Facebook
+export const ORDER_FIELDS: { field: OrderField; label: string; keywords: string[] }[] = [
+  { field: 'date', label: 'Thời Gian', keywords: ['thời gian', 'ngày', 'time', 'date'] },
+  { field: 'customerName', label: 'Tên Khách', keywords: ['tên khách', 'khách hàng', 'name'] },
+  { field: 'quantity', label: 'Số Đơn', keywords: ['số đơn', 'số lượng', 'quantity'] },
+  { field: 'amount', label: 'Tổng Tiền', keywords: ['tổng tiền', 'doanh thu', 'amount', 'thành tiền'] },
+  { field: 'details', label: 'Chi Tiết', keywords: ['chi tiết', 'nội dung', 'comment', 'product'] },
+  { field: 'facebookLink', label: 'Link Facebook', keywords: ['link facebook', 'facebook', 'fb'] },
+  { field: 'orderCode', label: 'Mã Đơn', keywords: ['mã đơn', 'mã đh', 'order id', 'order code', 'mã order'] },
+];
+
+export const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+/**
+ * Xác định cột cho từng trường: ưu tiên ghép cột thủ công của nguồn,
+ * các trường chưa ghép mới dùng từ khóa. Mỗi cột chỉ được dùng cho một trường,
+ * và từ khóa đứng trước (cụ thể hơn) được thử trên mọi cột trước từ khóa sau.
+ */
+export const resolveColumns = (headers: string[], mapping: ColumnMapping = {}): Partial<Record<OrderField, string>> => {
+  const resolved: Partial<Record<OrderField, string>> = {};
+  const used = new Set<string>();
+
+  ORDER_FIELDS.forEach(({ field }) => {
+    const header = mapping[field];
+    if (header && headers.includes(header)) {
+      resolved[field] = header;
+      used.add(header);
     }
-    const csvText = await response.text();
-    
-    const lines = csvText.split('\n').filter(line => line.trim() !== '');
-    if (lines.length < 2) return [];
+  });
+
+  ORDER_FIELDS.forEach(({ field, keywords }) => {
+    if (resolved[field]) return;
+    for (const k of keywords) {
+      const header = headers.find(h => !used.has(h) && h.includes(k));
+      if (header) {
+        resolved[field] = header;
+        used.add(header);
+        return;
+      }
+    }
+  });
+
+  return resolved;
+};
+
+// Băm chuỗi 53-bit (cyrb53), đủ ít va chạm cho vài chục nghìn dòng
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Khóa định danh của một dòng, không phụ thuộc vị trí dòng trong Sheet:
+ * mã đơn nếu có, nếu không thì băm thời gian + tên khách + số tiền + chi tiết (dạng gốc, đã chuẩn hóa khoảng trắng).
+ */
+export const buildOrderKey = (values: { orderCode: string; date: string; customerName: string; amount: string; details: string }) => {
+  if (values.orderCode) return `code-${values.orderCode}`;
+  const normalize = (v: string) => v.replace(/\s+/g, ' ').trim().toLowerCase();
+  const content = [values.date, values.customerName, values.amount, values.details].map(normalize).join('|');
+  return `h-${hashString(content)}`;
+};
+
+export const parseSalesCSV = (csvText: string, source: DataSource): Order[] => {
+  // Giữ cả dòng trống để số dòng khớp với Sheet (dòng 1 = tiêu đề)
+  const unterminatedCells = new Map<number, number>(); // chỉ số bản ghi -> chỉ số ô có ngoặc kép chưa đóng
+  const records = Array.from(tokenizeCSV(csvText, undefined, (recordIndex, cellIndex) => unterminatedCells.set(recordIndex, cellIndex)));
+  const isBlank = (record: string[]) => record.every(cell => cell.trim() === '');
+  const headerIndex = records.findIndex(r => !isBlank(r));
+  if (headerIndex === -1) return [];
 
-    const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase());
-    const dataLines = lines.slice(1);
+  const headers = records[headerIndex].map(normalizeHeader);
+  const columns = resolveColumns(headers, source.columnMapping);
+  const orders: Order[] = [];
+  const firstIdByKey = new Map<string, string>();
+  const keyCounts = new Map<string, number>();
+
+  records.forEach((record, recordIndex) => {
+    if (recordIndex <= headerIndex || isBlank(record)) return;
+
+    const rowNumber = recordIndex + 1;
+    const values = record.map(v => v.trim());
+    const row: any = {};
     
-    return dataLines.map((line, index) => {
-      const values = parseCSVLine(line);
-      const row: any = {};
-      
-      headers.forEach((h, i) => {
-        row[h] = values[i] || '';
-      });
+    headers.forEach((h, i) => {
+      row[h] = values[i] || '';
+    });
 
-      // Mapping dựa trên tên cột người dùng cung cấp
-      const findVal = (keywords: string[]) => {
-        const key = headers.find(h => keywords.some(k => h.includes(k)));
-        return key ? row[key] : '';
-      };
-
-      // Cột: Thời Gian, Tên Khách, Số Đơn, Tổng Tiền, Chi Tiết, Link Facebook
-      const dateVal = findVal(['thời gian', 'ngày', 'time', 'date']);
-      const nameVal = findVal(['tên khách', 'khách hàng', 'name']);
-      const quantityVal = findVal(['số đơn', 'số lượng', 'quantity']);
-      const amountVal = findVal(['tổng tiền', 'doanh thu', 'amount', 'thành tiền']);
-      const detailVal = findVal(['chi tiết', 'nội dung', 'comment', 'product']);
-      const linkVal = findVal(['link facebook', 'facebook', 'fb']);
-
-      return {
-        id: `row-${index}`,
-        date: parseDate(dateVal),
-        amount: parseCurrency(amountVal),
-        quantity: parseNumber(quantityVal),
-        customerName: nameVal || `Khách ${index + 1}`,
-        details: detailVal || '',
-        facebookLink: linkVal || '',
-        originalData: row
-      };
+    const warnings: ParseWarning[] = [];
+    const getVal = (field: OrderField) => {
+      const key = columns[field];
+      return key ? row[key] : '';
+    };
+    const read = <T,>(field: OrderField, parse: (value: string) => ParsedValue<T>): T => {
+      const rawValue = getVal(field);
+      const parsed = parse(rawValue);
+      if (parsed.assumed) {
+        warnings.push({ rowNumber, field, column: columns[field] || '', rawValue, assumed: parsed.assumed });
+      }
+      return parsed.value;
+    };
+
+    const unterminatedCell = unterminatedCells.get(recordIndex);
+    if (unterminatedCell !== undefined) {
+      const column = headers[unterminatedCell] || '';
+      const field = ORDER_FIELDS.find(f => column && columns[f.field] === column)?.field || null;
+      warnings.push({ rowNumber, field, column, rawValue: values[unterminatedCell] || '', assumed: 'Ngoặc kép chưa đóng, đọc ô như văn bản thường' });
+    }
+
+    const nameVal = getVal('customerName');
+    const customerName = nameVal || `Khách ${orders.length + 1}`;
+    if (!nameVal) {
+      warnings.push({ rowNumber, field: 'customerName', column: columns.customerName || '', rawValue: '', assumed: `Ô trống, đặt tên "${customerName}"` });
+    }
+
+    // Dòng trùng khóa (trùng mã đơn hoặc trùng toàn bộ nội dung) được đánh số thứ tự -2, -3...
+    const key = buildOrderKey({
+      orderCode: getVal('orderCode'),
+      date: getVal('date'),
+      customerName: nameVal,
+      amount: getVal('amount'),
+      details: getVal('details')
+    });
+    const occurrence = (keyCounts.get(key) || 0) + 1;
+    keyCounts.set(key, occurrence);
+    const id = occurrence === 1 ? `${source.id}:${key}` : `${source.id}:${key}-${occurrence}`;
+    if (occurrence === 1) firstIdByKey.set(key, id);
+
+    orders.push({
+      id,
+      date: read('date', parseDate),
+      amount: read('amount', parseCurrency),
+      quantity: read('quantity', parseNumber),
+      customerName,
+      details: getVal('details') || '',
+      facebookLink: getVal('facebookLink') || '',
+      originalData: row,
+      sourceId: source.id,
+      sourceName: source.name,
+      rowNumber,
+      warnings,
+      duplicateOf: occurrence > 1 ? firstIdByKey.get(key) : undefined
     });
+  });
 
+  return orders;
+};
+
+export const fetchSourceCSV = async (source: DataSource): Promise<string> => {
+  const response = await fetch(getSourceCsvUrl(source));
+  if (!response.ok) {
+    throw new Error(`Lỗi kết nối "${source.name}": ${response.status}`);
+  }
+  return response.text();
+};
+
+export const fetchSalesData = async (source: DataSource): Promise<Order[]> => {
+  try {
+    const csvText = await fetchSourceCSV(source);
+    const orders = parseSalesCSV(csvText, source);
+    if (orders.length > 0) {
+      saveCachedCSV({ sourceId: source.id, url: source.url, csvText, fetchedAt: Date.now() });
+    }
+    return orders;
   } catch (error) {
     console.error("Fetch error:", error);
     throw error;
   }
 };
 
+export interface SourcePreview {
+  headers: string[];
+  sampleRows: string[][];
+}
+
+// Dòng tiêu đề và vài dòng dữ liệu đầu để hiển thị trong màn hình ghép cột
+export const fetchSourcePreview = async (source: DataSource, sampleSize = 3): Promise<SourcePreview> => {
+  const records = parseCSV(await fetchSourceCSV(source));
+  if (records.length === 0) return { headers: [], sampleRows: [] };
+  return {
+    headers: records[0].map(normalizeHeader),
+    sampleRows: records.slice(1, sampleSize + 1).map(r => r.map(v => v.trim()))
+  };
+};
+
+// Tải và gộp dữ liệu từ nhiều nguồn; mỗi đơn hàng giữ tag nguồn của nó
+export const fetchMergedSalesData = async (sources: DataSource[]): Promise<Order[]> => {
+  const results = await Promise.all(sources.map(source => fetchSalesData(source)));
+  return results.flat();
+};
+
+export interface CachedSalesData {
+  orders: Order[];
+  fetchedAt: number; // Thời điểm tải của nguồn cũ nhất trong cache
+}
+
+/**
+ * Dữ liệu offline: đọc lại CSV đã lưu của các nguồn và parse theo cấu hình hiện tại (ghép cột, múi giờ).
+ * Trả về null nếu không nguồn nào có cache.
+ */
+export const loadCachedSalesData = async (sources: DataSource[]): Promise<CachedSalesData | null> => {
+  const entries = await Promise.all(sources.map(source => loadCachedCSV(source.id)));
+  const orders: Order[] = [];
+  let fetchedAt = Infinity;
+
+  entries.forEach((entry, i) => {
+    if (!entry || entry.url !== sources[i].url) return;
+    orders.push(...parseSalesCSV(entry.csvText, sources[i]));
+    fetchedAt = Math.min(fetchedAt, entry.fetchedAt);
+  });
+
+  return orders.length > 0 ? { orders, fetchedAt } : null;
+};
+
 export const getMockData = (): Order[] => {
   const today = new Date();
   const data: Order[] = [];
@@ -134,7 +398,11 @@ export const getMockData = (): Order[] => {
         customerName: `Nguyễn Văn ${String.fromCharCode(65 + j)}`,
         details: 'Combo 2 áo thun, size L, màu đen. Giao hàng giờ hành chính.',
         facebookLink: 'https://facebook.com',
-        originalData: {}
+        originalData: {},
+        sourceId: 'mock',
+        sourceName: 'Dữ liệu mẫu',
+        rowNumber: data.length + 2,
+        warnings: []
       });
     }
   }
@@ -0,0 +1,64 @@
+import { todayKey, addDays, addMonths, startOfWeek } from './dateUtils';
+import { DateRange } from './statsService';
+
+export type DatePresetId =
+  | 'today' | 'yesterday' | 'last7' | 'last30' | 'last90'
+  | 'thisWeek' | 'lastWeek' | 'thisMonth' | 'lastMonth' | 'thisQuarter' | 'thisYear' | 'all';
+
+// `quick`: hiện thành nút trên thanh lọc nhanh, các mốc còn lại nằm trong danh sách chọn
+export const DATE_PRESETS: { id: DatePresetId; label: string; quick?: boolean }[] = [
+  { id: 'today', label: 'Hôm nay', quick: true },
+  { id: 'yesterday', label: 'Hôm qua', quick: true },
+  { id: 'last7', label: '7 ngày qua', quick: true },
+  { id: 'last30', label: '30 ngày qua' },
+  { id: 'last90', label: '90 ngày qua' },
+  { id: 'thisWeek', label: 'Tuần này' },
+  { id: 'lastWeek', label: 'Tuần trước' },
+  { id: 'thisMonth', label: 'Tháng này', quick: true },
+  { id: 'lastMonth', label: 'Tháng trước' },
+  { id: 'thisQuarter', label: 'Quý này' },
+  { id: 'thisYear', label: 'Năm nay' },
+  { id: 'all', label: 'Tất cả', quick: true },
+];
+
+export const isDatePreset = (id: string): id is DatePresetId => DATE_PRESETS.some(p => p.id === id);
+
+export const getDateFilterLabel = (id: string) => DATE_PRESETS.find(p => p.id === id)?.label || 'Tùy chỉnh';
+
+/** Khoảng ngày (YYYY-MM-DD, gồm cả hai đầu) của một mốc lọc nhanh; "Tất cả" trả về khoảng rỗng. */
+export const resolveDatePreset = (id: DatePresetId, today = todayKey()): DateRange => {
+  const monthStart = `${today.slice(0, 7)}-01`;
+  switch (id) {
+    case 'today':
+      return { start: today, end: today };
+    case 'yesterday': {
+      const yesterday = addDays(today, -1);
+      return { start: yesterday, end: yesterday };
+    }
+    case 'last7':
+      return { start: addDays(today, -6), end: today };
+    case 'last30':
+      return { start: addDays(today, -29), end: today };
+    case 'last90':
+      return { start: addDays(today, -89), end: today };
+    case 'thisWeek':
+      return { start: startOfWeek(today), end: today };
+    case 'lastWeek': {
+      const start = addDays(startOfWeek(today), -7);
+      return { start, end: addDays(start, 6) };
+    }
+    case 'thisMonth':
+      return { start: monthStart, end: today };
+    case 'lastMonth':
+      return { start: addMonths(monthStart, -1), end: addDays(monthStart, -1) };
+    case 'thisQuarter': {
+      const month = Number(today.slice(5, 7));
+      const quarterStartMonth = month - ((month - 1) % 3);
+      return { start: `${today.slice(0, 4)}-${String(quarterStartMonth).padStart(2, '0')}-01`, end: today };
+    }
+    case 'thisYear':
+      return { start: `${today.slice(0, 4)}-01-01`, end: today };
+    case 'all':
+      return { start: '', end: '' };
+  }
+};
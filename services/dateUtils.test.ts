@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_TIMEZONE, getBusinessTimeZone, parseDateTime, toDateKey, zonedTimeToDate } from './dateUtils';
+
+const iso = (date: Date | null) => date?.toISOString();
+
+// Máy chạy test ở America/Los_Angeles (vite.config.ts), múi giờ kinh doanh mặc định là giờ Việt Nam (UTC+7)
+it('chạy với múi giờ kinh doanh mặc định', () => {
+  expect(getBusinessTimeZone()).toBe(DEFAULT_TIMEZONE);
+});
+
+describe('zonedTimeToDate', () => {
+  it('giờ Việt Nam: nửa đêm là 17h UTC ngày hôm trước', () => {
+    expect(iso(zonedTimeToDate(2026, 3, 16))).toBe('2026-03-15T17:00:00.000Z');
+    expect(iso(zonedTimeToDate(2026, 3, 15, 23, 59, 59))).toBe('2026-03-15T16:59:59.000Z');
+    expect(iso(zonedTimeToDate(2026, 1, 1, 0, 0, 0))).toBe('2025-12-31T17:00:00.000Z');
+  });
+
+  it('múi giờ khác truyền vào tham số', () => {
+    expect(iso(zonedTimeToDate(2026, 3, 16, 0, 0, 0, 'Asia/Tokyo'))).toBe('2026-03-15T15:00:00.000Z');
+    expect(iso(zonedTimeToDate(2026, 3, 15, 23, 59, 59, 'America/New_York'))).toBe('2026-03-16T03:59:59.000Z');
+  });
+
+  it('múi giờ có đổi giờ (DST): lấy đúng độ lệch trước và sau mốc đổi', () => {
+    // New York chuyển từ EST (-5) sang EDT (-4) lúc 2h sáng 08/03/2026, về lại EST ngày 01/11/2026
+    expect(iso(zonedTimeToDate(2026, 3, 8, 1, 30, 0, 'America/New_York'))).toBe('2026-03-08T06:30:00.000Z');
+    expect(iso(zonedTimeToDate(2026, 3, 8, 3, 0, 0, 'America/New_York'))).toBe('2026-03-08T07:00:00.000Z');
+    expect(iso(zonedTimeToDate(2026, 3, 9, 0, 0, 0, 'America/New_York'))).toBe('2026-03-09T04:00:00.000Z');
+    expect(iso(zonedTimeToDate(2026, 11, 1, 12, 0, 0, 'America/New_York'))).toBe('2026-11-01T17:00:00.000Z');
+  });
+});
+
+describe('toDateKey', () => {
+  it('đổi ngày đúng lúc nửa đêm giờ Việt Nam, không theo múi giờ của máy', () => {
+    expect(toDateKey('2026-03-15T16:59:59.999Z')).toBe('2026-03-15');
+    expect(toDateKey('2026-03-15T17:00:00.000Z')).toBe('2026-03-16');
+    expect(toDateKey(new Date('2025-12-31T17:00:00.000Z'))).toBe('2026-01-01');
+  });
+
+  it('múi giờ khác truyền vào tham số', () => {
+    expect(toDateKey('2026-03-15T14:59:59Z', 'Asia/Tokyo')).toBe('2026-03-15');
+    expect(toDateKey('2026-03-15T15:00:00Z', 'Asia/Tokyo')).toBe('2026-03-16');
+    expect(toDateKey('2026-03-16T03:59:59Z', 'America/New_York')).toBe('2026-03-15');
+    expect(toDateKey('2026-03-16T04:00:00Z', 'America/New_York')).toBe('2026-03-16');
+  });
+});
+
+describe('parseDateTime', () => {
+  it('định dạng VN hiểu theo múi giờ kinh doanh, giữ nguyên giờ phút giây', () => {
+    expect(iso(parseDateTime('15/03/2026 23:59:59'))).toBe('2026-03-15T16:59:59.000Z');
+    expect(iso(parseDateTime('16/03/2026 00:00'))).toBe('2026-03-15T17:00:00.000Z');
+    expect(iso(parseDateTime('16-03-26'))).toBe('2026-03-15T17:00:00.000Z');
+    expect(toDateKey(parseDateTime('16/03/2026 00:00:01')!)).toBe('2026-03-16');
+  });
+
+  it('giờ 12 tiếng: 12h SA là nửa đêm, 11h59 CH là cuối ngày', () => {
+    expect(iso(parseDateTime('16/03/2026 12:05 SA'))).toBe('2026-03-15T17:05:00.000Z');
+    expect(iso(parseDateTime('15/03/2026 11:59 PM'))).toBe('2026-03-15T16:59:00.000Z');
+    expect(iso(parseDateTime('15/03/2026 12:00 CH'))).toBe('2026-03-15T05:00:00.000Z');
+  });
+
+  it('ISO không kèm múi giờ dùng múi giờ truyền vào; có múi giờ tường minh thì bỏ qua tham số', () => {
+    expect(iso(parseDateTime('2026-03-15 23:30', 'Asia/Tokyo'))).toBe('2026-03-15T14:30:00.000Z');
+    expect(iso(parseDateTime('15/03/2026 23:59:59', 'America/New_York'))).toBe('2026-03-16T03:59:59.000Z');
+    expect(iso(parseDateTime('2026-03-15T23:30:00Z', 'Asia/Tokyo'))).toBe('2026-03-15T23:30:00.000Z');
+    expect(iso(parseDateTime('2026-03-16T00:30:00+07:00', 'America/New_York'))).toBe('2026-03-15T17:30:00.000Z');
+    expect(iso(parseDateTime('2026-03-15T20:00:00.123-04:00'))).toBe('2026-03-16T00:00:00.000Z');
+  });
+
+  it('ngày giờ không hợp lệ trả về null', () => {
+    ['', '   ', 'hôm qua', '31/02/2026', '15/13/2026', '15/03/2026 24:00', '2026-02-29 10:00', '15/03/2026 10:60'].forEach(value =>
+      expect(parseDateTime(value)).toBeNull());
+  });
+});
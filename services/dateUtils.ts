@@ -0,0 +1,200 @@
+import { loadFromStorage, saveToStorage } from './storage';
+
+// Múi giờ kinh doanh: mọi phép lọc, gom nhóm theo ngày và hiển thị giờ đều dùng múi giờ này,
+// không phụ thuộc múi giờ của trình duyệt đang mở dashboard.
+export const DEFAULT_TIMEZONE = 'Asia/Ho_Chi_Minh';
+
+const TIMEZONE_KEY = 'businessTimeZone';
+
+let businessTimeZone = loadFromStorage<string>(TIMEZONE_KEY, DEFAULT_TIMEZONE);
+
+export const getBusinessTimeZone = () => businessTimeZone;
+
+export const setBusinessTimeZone = (timeZone: string) => {
+  businessTimeZone = timeZone;
+  saveToStorage(TIMEZONE_KEY, timeZone);
+};
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Chủ nhật ... 6 = Thứ 7
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+      weekday: 'short'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Tách ngày/giờ của một thời điểm theo múi giờ kinh doanh
+export const getZonedParts = (date: Date | string, timeZone = businessTimeZone): ZonedParts => {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  const parts: Record<string, string> = {};
+  getPartsFormatter(timeZone).formatToParts(d).forEach(p => { parts[p.type] = p.value; });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+};
+
+// Độ lệch (ms) của múi giờ so với UTC tại một thời điểm (VD: +7h với Asia/Ho_Chi_Minh)
+const getTimeZoneOffset = (timestamp: number, timeZone: string) => {
+  const p = getZonedParts(new Date(timestamp), timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(timestamp / 1000) * 1000;
+};
+
+/** Chuyển giờ "đồng hồ treo tường" tại múi giờ kinh doanh sang Date (UTC). */
+export const zonedTimeToDate = (
+  year: number, month: number, day: number,
+  hour = 0, minute = 0, second = 0,
+  timeZone = businessTimeZone
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  let timestamp = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  // Tính lại một lần cho trường hợp đổi giờ (DST) nằm giữa hai mốc
+  timestamp = wallClock - getTimeZoneOffset(timestamp, timeZone);
+  return new Date(timestamp);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Khóa ngày YYYY-MM-DD theo múi giờ kinh doanh
+export const toDateKey = (date: Date | string, timeZone = businessTimeZone): string => {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+export const todayKey = () => toDateKey(new Date());
+
+// Cộng/trừ ngày trên khóa YYYY-MM-DD (thuần lịch, không phụ thuộc múi giờ)
+export const addDays = (dateKey: string, days: number): string => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// Cộng/trừ tháng trên khóa YYYY-MM-DD, giữ ngày trong giới hạn của tháng đích (31/03 - 1 tháng -> 28/02 hoặc 29/02)
+export const addMonths = (dateKey: string, months: number): string => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const year = target.getUTCFullYear();
+  const month = target.getUTCMonth() + 1;
+  return `${year}-${pad(month)}-${pad(Math.min(d, daysInMonth(year, month)))}`;
+};
+
+// Số ngày từ khóa ngày `from` tới `to` (YYYY-MM-DD)
+export const daysBetween = (from: string, to: string): number => {
+  const toUtc = (key: string) => {
+    const [y, m, d] = key.split('-').map(Number);
+    return Date.UTC(y, m - 1, d);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / 86400000);
+};
+
+// Thứ trong tuần của khóa ngày (0 = Chủ nhật)
+export const getWeekday = (dateKey: string): number => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+// Ngày thứ Hai đầu tuần chứa khóa ngày
+export const startOfWeek = (dateKey: string): string => addDays(dateKey, -((getWeekday(dateKey) + 6) % 7));
+
+// Hiển thị khóa ngày YYYY-MM-DD dạng dd/mm hoặc dd/mm/yyyy
+export const formatDateKey = (dateKey: string, withYear = true): string => {
+  const [y, m, d] = dateKey.split('-');
+  return withYear ? `${d}/${m}/${y}` : `${d}/${m}`;
+};
+
+export const formatDate = (date: Date | string | number) =>
+  new Date(date).toLocaleDateString('vi-VN', { timeZone: businessTimeZone });
+
+export const formatTime = (date: Date | string | number, withSeconds = false) =>
+  new Date(date).toLocaleTimeString('vi-VN', {
+    timeZone: businessTimeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    ...(withSeconds ? { second: '2-digit' } : {})
+  });
+
+export const formatDateTime = (date: Date | string | number) => `${formatDate(date)} ${formatTime(date)}`;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const isValidDateTime = (y: number, mo: number, d: number, h: number, mi: number, s: number) =>
+  mo >= 1 && mo <= 12 && d >= 1 && d <= daysInMonth(y, mo) && h >= 0 && h <= 23 && mi >= 0 && mi <= 59 && s >= 0 && s <= 59;
+
+const to24Hour = (hour: number, meridiem?: string) => {
+  if (!meridiem) return hour;
+  const isPM = /^(pm|ch)$/i.test(meridiem);
+  if (hour === 12) return isPM ? 12 : 0;
+  return isPM ? hour + 12 : hour;
+};
+
+const parseOffsetMinutes = (offset: string) => {
+  const sign = offset[0] === '-' ? -1 : 1;
+  const digits = offset.slice(1).replace(':', '');
+  return sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2, 4)));
+};
+
+// DD/MM/YYYY [HH:mm[:ss]] [AM/PM|SA/CH] – dấu phân cách / - . ; năm 2 hoặc 4 chữ số
+const VN_DATE_RE = /^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4}|\d{2})(?:[\sT,]+(\d{1,2})[:hH](\d{2})(?::(\d{2}))?\s*(am|pm|sa|ch)?)?$/i;
+// YYYY-MM-DD[THH:mm[:ss[.sss]]][Z|±hh:mm]
+const ISO_DATE_RE = /^(\d{4})[\-\/.](\d{1,2})[\-\/.](\d{1,2})(?:[\sT]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+\-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Đọc ngày giờ từ ô "Thời Gian", giữ nguyên giờ phút giây.
+ * Hỗ trợ định dạng VN (DD/MM/YYYY HH:mm:ss) và ISO (YYYY-MM-DD HH:mm:ss, có hoặc không có múi giờ).
+ * Giờ không kèm múi giờ được hiểu theo múi giờ kinh doanh. Trả về null nếu không đọc được.
+ */
+export const parseDateTime = (value: string, timeZone = businessTimeZone): Date | null => {
+  const text = value.trim();
+  if (!text) return null;
+
+  const vn = text.match(VN_DATE_RE);
+  if (vn) {
+    const year = vn[3].length === 2 ? 2000 + Number(vn[3]) : Number(vn[3]);
+    const hour = to24Hour(Number(vn[4] || 0), vn[7]);
+    const [month, day, minute, second] = [Number(vn[2]), Number(vn[1]), Number(vn[5] || 0), Number(vn[6] || 0)];
+    if (!isValidDateTime(year, month, day, hour, minute, second)) return null;
+    return zonedTimeToDate(year, month, day, hour, minute, second, timeZone);
+  }
+
+  const iso = text.match(ISO_DATE_RE);
+  if (iso) {
+    const [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    const [hour, minute, second] = [Number(iso[4] || 0), Number(iso[5] || 0), Number(iso[6] || 0)];
+    if (!isValidDateTime(year, month, day, hour, minute, second)) return null;
+    if (iso[7]) {
+      // Có múi giờ tường minh: Z hoặc ±hh:mm
+      const offset = iso[7].toUpperCase() === 'Z' ? 0 : parseOffsetMinutes(iso[7]);
+      return new Date(Date.UTC(year, month - 1, day, hour, minute, second) - offset * 60000);
+    }
+    return zonedTimeToDate(year, month, day, hour, minute, second, timeZone);
+  }
+
+  return null;
+};
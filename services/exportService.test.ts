@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { ExportTable, toCsv } from './exportService';
+
+const csvLines = async (table: ExportTable) => (await toCsv(table).text()).replace(/^\uFEFF/, '').split('\r\n');
+
+describe('toCsv', () => {
+  const table = (rows: ExportTable['rows']): ExportTable => ({
+    name: 'Thử',
+    columns: [
+      { header: 'Tên khách', format: 'text', width: 10 },
+      { header: 'Tổng tiền', format: 'integer', width: 10 },
+    ],
+    rows
+  });
+
+  it('ô chữ bắt đầu như công thức được thêm \' và đặt trong ngoặc kép', async () => {
+    const lines = await csvLines(table([
+      ['=HYPERLINK("http://x","bấm")', 1],
+      ['+84 912', 2],
+      ['-giảm giá', 3],
+      ['@admin', 4],
+      ['\tẩn', 5],
+      ['\rđầu dòng', 6],
+    ]));
+    expect(lines.slice(1)).toEqual([
+      `"'=HYPERLINK(""http://x"",""bấm"")",1`,
+      `"'+84 912",2`,
+      `"'-giảm giá",3`,
+      `"'@admin",4`,
+      `"'\tẩn",5`,
+      `"'\rđầu dòng",6`,
+    ]);
+  });
+
+  it('giữ nguyên số âm và ô chữ bình thường', async () => {
+    const lines = await csvLines(table([['Nguyễn A, Hà Nội', -150000], ['Lê B', 0]]));
+    expect(lines).toEqual(['Tên khách,Tổng tiền', '"Nguyễn A, Hà Nội",-150000', 'Lê B,0']);
+  });
+});
@@ -0,0 +1,156 @@
+import { Order, DailyStat, OrderTracking } from '../types';
+import { getZonedParts } from './dateUtils';
+import { PAYMENT_STATUSES, getOrderTracking, getStatusInfo } from './orderTrackingService';
+import { XlsxCell, XlsxCellFormat, XlsxSheet, buildXlsx, toExcelSerial } from './xlsxWriter';
+
+// Giá trị ô trước khi ghi: ngày giờ là chuỗi ISO / Date, ngày là khóa YYYY-MM-DD
+type ExportValue = string | number | Date | null;
+
+interface ExportColumn {
+  header: string;
+  format: XlsxCellFormat;
+  width: number;
+}
+
+export interface ExportTable {
+  name: string; // Tên sheet
+  columns: ExportColumn[];
+  rows: ExportValue[][];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const ORDER_COLUMNS: ExportColumn[] = [
+  { header: 'Mã đơn', format: 'text', width: 24 },
+  { header: 'Ngày giờ', format: 'datetime', width: 18 },
+  { header: 'Tên khách', format: 'text', width: 24 },
+  { header: 'Số lượng', format: 'integer', width: 10 },
+  { header: 'Tổng tiền', format: 'integer', width: 14 },
+  { header: 'Chi tiết', format: 'text', width: 50 },
+  { header: 'Link Facebook', format: 'text', width: 32 },
+  { header: 'Nguồn', format: 'text', width: 18 },
+  { header: 'Dòng trong Sheet', format: 'integer', width: 10 },
+];
+
+const orderRow = (order: Order): ExportValue[] => [
+  order.id, order.date, order.customerName, order.quantity, order.amount,
+  order.details, order.facebookLink, order.sourceName, order.rowNumber
+];
+
+const TRACKING_COLUMNS: ExportColumn[] = [
+  { header: 'Trạng thái', format: 'text', width: 10 },
+  { header: 'Thanh toán', format: 'text', width: 16 },
+  { header: 'Mã vận đơn', format: 'text', width: 18 },
+  { header: 'Ghi chú nội bộ', format: 'text', width: 32 },
+];
+
+const trackingRow = (tracking: OrderTracking): ExportValue[] => [
+  getStatusInfo(tracking.status).label,
+  PAYMENT_STATUSES.find(p => p.id === tracking.payment)?.label || '',
+  tracking.shippingCode,
+  tracking.note
+];
+
+export const buildOrdersTable = (orders: Order[], tracking: Record<string, OrderTracking>): ExportTable => ({
+  name: 'Đơn hàng',
+  columns: [...ORDER_COLUMNS, ...TRACKING_COLUMNS],
+  rows: [...orders]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(order => [...orderRow(order), ...trackingRow(getOrderTracking(tracking, order.id))])
+});
+
+/** Mỗi khách một dòng "Tổng", theo sau là từng đơn con của khách đó. */
+export const buildGroupedTable = (groups: Order[]): ExportTable => ({
+  name: 'Gộp theo khách',
+  columns: [
+    { header: 'Tên khách', format: 'text', width: 24 },
+    { header: 'Loại dòng', format: 'text', width: 10 },
+    { header: 'Số đơn', format: 'integer', width: 8 },
+    ...ORDER_COLUMNS.filter(c => c.header !== 'Tên khách'),
+  ],
+  rows: groups.flatMap(group => {
+    const subOrders = [...(group.subOrders || [group])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    return [
+      [group.customerName, 'Tổng', subOrders.length, '', group.date, group.quantity, group.amount, '', group.facebookLink, '', null],
+      ...subOrders.map(sub => [sub.customerName, 'Đơn con', null, ...orderRow(sub).filter((_, i) => i !== 2)]),
+    ];
+  })
+});
+
+export const buildDailyStatsTable = (stats: DailyStat[]): ExportTable => ({
+  name: 'Thống kê theo ngày',
+  columns: [
+    { header: 'Ngày', format: 'date', width: 12 },
+    { header: 'Số lượng', format: 'integer', width: 10 },
+    { header: 'Doanh thu', format: 'integer', width: 16 },
+    { header: 'Giá trị TB', format: 'integer', width: 14 },
+  ],
+  rows: stats.map(s => [s.date, s.orderCount, s.revenue, s.orderCount > 0 ? Math.round(s.revenue / s.orderCount) : 0])
+});
+
+// Ngày giờ theo múi giờ kinh doanh; ngày (khóa YYYY-MM-DD) giữ nguyên
+const toWallClock = (value: ExportValue, format: XlsxCellFormat) => {
+  if (value === null || value === '') return null;
+  if (format === 'date' && typeof value === 'string') {
+    const [year, month, day] = value.split('-').map(Number);
+    return { year, month, day, hour: 0, minute: 0, second: 0 };
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : getZonedParts(date);
+};
+
+const formatCsvValue = (value: ExportValue, format: XlsxCellFormat): string => {
+  if (format === 'date' || format === 'datetime') {
+    const p = toWallClock(value, format);
+    if (!p) return '';
+    const date = `${pad(p.day)}/${pad(p.month)}/${p.year}`;
+    return format === 'date' ? date : `${date} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+  }
+  return value === null ? '' : String(value);
+};
+
+// Ô chữ bắt đầu bằng = + - @ tab hoặc CR bị Excel / Google Sheets hiểu là công thức (CSV injection):
+// thêm ' phía trước để luôn hiển thị như chữ. Ô số (format khác 'text') giữ nguyên để số âm không bị hỏng.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const quoteCsv = (text: string, format: XlsxCellFormat = 'text') => {
+  if (format === 'text' && FORMULA_PREFIX.test(text)) return `"'${text.replace(/"/g, '""')}"`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** CSV kèm BOM UTF-8 để Excel hiển thị đúng tiếng Việt. */
+export const toCsv = (table: ExportTable): Blob => {
+  const lines = [
+    table.columns.map(c => quoteCsv(c.header)).join(','),
+    ...table.rows.map(row => row.map((value, i) => quoteCsv(formatCsvValue(value, table.columns[i].format), table.columns[i].format)).join(',')),
+  ];
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+const toXlsxCell = (value: ExportValue, format: XlsxCellFormat): XlsxCell => {
+  if (format === 'date' || format === 'datetime') {
+    const p = toWallClock(value, format);
+    return { value: p ? toExcelSerial(p.year, p.month, p.day, p.hour, p.minute, p.second) : null, format };
+  }
+  if (typeof value === 'number') return { value, format };
+  return { value: value === null ? null : String(value), format: 'text' };
+};
+
+export const toXlsx = (tables: ExportTable[]): Blob =>
+  buildXlsx(tables.map((table): XlsxSheet => ({
+    name: table.name,
+    headers: table.columns.map(c => c.header),
+    widths: table.columns.map(c => c.width),
+    rows: table.rows.map(row => row.map((value, i) => toXlsxCell(value, table.columns[i].format)))
+  })));
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
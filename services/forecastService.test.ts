@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { DailyStat } from '../types';
+import { backtestForecast, buildForecastModel, forecastDays, forecastMonthTotal } from './forecastService';
+import { DEFAULT_TIMEZONE, addDays, daysBetween, getBusinessTimeZone, getWeekday } from './dateUtils';
+
+const Z_80 = 1.2816;
+
+// Số liệu theo ngày từ `start` tới `end` (tính cả hai đầu); số đơn = doanh thu / 100
+const series = (start: string, end: string, revenueOf: (date: string, index: number) => number): DailyStat[] =>
+  Array.from({ length: daysBetween(start, end) + 1 }, (_, i) => {
+    const date = addDays(start, i);
+    const revenue = revenueOf(date, i);
+    return { date, revenue, orderCount: revenue / 100 };
+  });
+
+// Khóa ngày YYYY-MM-DD, múi giờ kinh doanh mặc định; máy chạy test ở America/Los_Angeles (vite.config.ts)
+it('chạy với múi giờ kinh doanh mặc định', () => {
+  expect(getBusinessTimeZone()).toBe(DEFAULT_TIMEZONE);
+  expect(new Date(2026, 2, 15).getTimezoneOffset()).toBe(420);
+});
+
+describe('buildForecastModel / forecastDays', () => {
+  it('cần ít nhất 2 tuần lịch sử', () => {
+    expect(buildForecastModel(series('2026-03-01', '2026-03-13', () => 100), '2026-03-13')).toBeNull();
+    expect(buildForecastModel(series('2026-03-01', '2026-03-14', () => 100), '2026-03-14')).not.toBeNull();
+    expect(buildForecastModel([], '2026-03-14')).toBeNull();
+  });
+
+  it('doanh thu đều: dự báo bằng mức đó, khoảng tin cậy bằng 0, ngày không có đơn tính là 0', () => {
+    const model = buildForecastModel(series('2026-01-01', '2026-03-15', () => 1000), '2026-03-15')!;
+    expect(model.historyDays).toBe(56);
+    const [first] = forecastDays(model, 7);
+    expect(first).toMatchObject({ date: '2026-03-16', revenue: 1000, revenueLow: 1000, revenueHigh: 1000, orderCount: 10 });
+
+    // Bỏ 7 ngày cuối: tuần đó tính là 0 nên mức nền giảm 1/4
+    const withGap = series('2026-01-01', '2026-03-08', () => 1000);
+    expect(forecastDays(buildForecastModel(withGap, '2026-03-15')!, 1)[0].revenue).toBeCloseTo(750);
+  });
+
+  it('học hệ số thứ trong tuần: cuối tuần cao hơn ngày thường, hệ số trung bình bằng 1', () => {
+    // Thứ 7: 300, Chủ nhật: 200, ngày thường: 100
+    const weekly = (date: string) => [200, 100, 100, 100, 100, 100, 300][getWeekday(date)];
+    const model = buildForecastModel(series('2026-01-01', '2026-03-15', weekly), '2026-03-15')!;
+    // Mỗi thứ có 8 ngày, cộng 2 ngày "ảo" hệ số 1: (8 × v / TB + 2) / 10, với TB = 1000 / 7
+    const factors = model.series.revenue.weekdayFactors;
+    [1.32, 0.76, 0.76, 0.76, 0.76, 0.76, 1.88].forEach((expected, weekday) => expect(factors[weekday]).toBeCloseTo(expected));
+    expect(factors.reduce((sum, f) => sum + f, 0) / 7).toBeCloseTo(1);
+
+    const week = forecastDays(model, 7); // 16/03 (thứ 2) - 22/03 (chủ nhật)
+    expect(week.map(p => p.date)).toEqual(Array.from({ length: 7 }, (_, i) => addDays('2026-03-16', i)));
+    // Mức nền = trung bình 28 ngày gần nhất của doanh thu / hệ số
+    const base = (200 / 1.32 + (5 * 100) / 0.76 + 300 / 1.88) / 7;
+    expect(week[0].revenue).toBeCloseTo(base * 0.76);
+    expect(week[5].revenue).toBeCloseTo(base * 1.88);
+    expect(week[6].revenue).toBeCloseTo(base * 1.32);
+  });
+
+  it('khoảng tin cậy 80% = 1,2816 × độ lệch chuẩn sai số một ngày', () => {
+    // Xen kẽ 80 / 120: mỗi thứ có 4 ngày 80 và 4 ngày 120 nên hệ số đều bằng 1, sai số ±20
+    const model = buildForecastModel(series('2026-01-18', '2026-03-14', (_, i) => i % 2 ? 120 : 80), '2026-03-14')!;
+    const std = 20 * Math.sqrt(56 / 55);
+    expect(model.series.revenue.residualStd).toBeCloseTo(std);
+    const [point] = forecastDays(model, 1);
+    expect(point.revenue).toBeCloseTo(100);
+    expect(point.revenueHigh - point.revenue).toBeCloseTo(Z_80 * std);
+    expect(point.revenue - point.revenueLow).toBeCloseTo(Z_80 * std);
+  });
+});
+
+describe('forecastMonthTotal', () => {
+  const flat = series('2026-01-01', '2026-03-10', () => 100);
+
+  it('cộng thực tế đã có với dự báo các ngày còn lại', () => {
+    expect(forecastMonthTotal(flat, '2026-03', '2026-03-10')).toEqual({
+      month: '2026-03', asOf: '2026-03-10', actualToDate: 1000, expected: 3100, low: 3100, high: 3100, remainingDays: 21
+    });
+  });
+
+  it('ngày dở dang lấy số lớn hơn giữa thực tế và dự báo', () => {
+    expect(forecastMonthTotal(flat, '2026-03', '2026-03-10', 250)).toMatchObject({ actualToDate: 1250, expected: 3250 });
+    expect(forecastMonthTotal(flat, '2026-03', '2026-03-10', 40)).toMatchObject({ actualToDate: 1040, expected: 3100 });
+  });
+
+  it('lập trước ngày 1 thì dự báo đủ tháng; khoảng tin cậy rộng theo số ngày còn lại', () => {
+    const noisy = series('2026-01-04', '2026-02-28', (_, i) => i % 2 ? 120 : 80);
+    const forecast = forecastMonthTotal(noisy, '2026-03', '2026-02-28')!;
+    expect(forecast.actualToDate).toBe(0);
+    expect(forecast.remainingDays).toBe(31);
+    expect(forecast.expected).toBeCloseTo(3100);
+    const std = 20 * Math.sqrt(56 / 55);
+    expect(forecast.high - forecast.expected).toBeCloseTo(Z_80 * std * Math.sqrt(31 + 31 ** 2 / 28));
+  });
+
+  it('không đủ lịch sử thì trả về null', () => {
+    expect(forecastMonthTotal(series('2026-03-01', '2026-03-10', () => 100), '2026-03', '2026-03-10')).toBeNull();
+  });
+});
+
+describe('backtestForecast', () => {
+  it('doanh thu đều: sai số 0, thực tế luôn trong khoảng; dừng ở tháng chưa đủ lịch sử', () => {
+    const summary = backtestForecast(series('2025-10-01', '2026-03-18', () => 100), '2026-03-18');
+    expect(summary.months.map(m => m.month)).toEqual(['2026-02', '2026-01', '2025-12', '2025-11', '2025-10']);
+    expect(summary.months[4].fromStart).toBeNull(); // Trước 01/10 chưa có dữ liệu
+    expect(summary.months[4].fromMid).not.toBeNull();
+    expect(summary).toMatchObject({ startError: 0, midError: 0, coverage: 100 });
+  });
+
+  it('doanh thu tăng gấp đôi từ đầu tháng 2: đo được sai số của từng mốc', () => {
+    const step = series('2025-12-01', '2026-03-18', date => date < '2026-02-01' ? 100 : 200);
+    const summary = backtestForecast(step, '2026-03-18', 1);
+    const [february] = summary.months;
+    expect(february.actual).toBe(5600);
+    // Đầu tháng: vẫn dự báo 100/ngày
+    expect(february.fromStart!.expected).toBeCloseTo(2800);
+    expect(summary.startError).toBeCloseTo(50);
+    // Ngày 14: mức nền 28 ngày = (14 × 100 + 14 × 200) / 28 = 150
+    expect(february.fromMid!.expected).toBeCloseTo(14 * 200 + 14 * 150);
+    expect(summary.midError).toBeCloseTo(12.5);
+  });
+});
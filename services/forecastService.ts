@@ -0,0 +1,211 @@
+import { DailyStat } from '../types';
+import { addDays, addMonths, daysBetween, getWeekday } from './dateUtils';
+
+// Dự báo doanh thu / số lượng theo ngày: trung bình trượt 4 tuần gần nhất (đã khử mùa vụ)
+// nhân hệ số thứ trong tuần học từ 8 tuần gần nhất. Khoảng tin cậy dựa trên sai số trong mẫu.
+
+export type ForecastMetric = 'revenue' | 'orderCount';
+
+export const FORECAST_HORIZONS = [7, 30] as const;
+
+export type ForecastHorizon = typeof FORECAST_HORIZONS[number];
+
+const SEASON_WINDOW_DAYS = 56; // Học hệ số thứ trong tuần
+const BASE_WINDOW_DAYS = 28; // Trung bình trượt cho mức nền
+const MIN_HISTORY_DAYS = 14;
+const WEEKDAY_PRIOR = 2; // Số ngày "ảo" có hệ số 1, tránh hệ số cực đoan khi mới có ít tuần dữ liệu
+const Z_80 = 1.2816; // Khoảng tin cậy 80%
+
+export const FORECAST_CONFIDENCE = 80;
+
+interface SeriesModel {
+  base: number; // Trung bình một ngày, đã khử mùa vụ
+  weekdayFactors: number[]; // [0 = Chủ nhật ... 6 = Thứ 7], trung bình bằng 1
+  residualStd: number; // Độ lệch chuẩn sai số một ngày
+}
+
+export interface ForecastModel {
+  asOf: string; // Ngày cuối cùng có dữ liệu được dùng để học
+  historyDays: number;
+  series: Record<ForecastMetric, SeriesModel>;
+}
+
+export interface ForecastPoint {
+  date: string;
+  revenue: number;
+  revenueLow: number;
+  revenueHigh: number;
+  orderCount: number;
+  orderCountLow: number;
+  orderCountHigh: number;
+}
+
+const fitSeries = (values: number[], weekdays: number[]): SeriesModel => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  const sums = Array(7).fill(0);
+  const counts = Array(7).fill(0);
+  values.forEach((v, i) => {
+    sums[weekdays[i]] += v;
+    counts[weekdays[i]]++;
+  });
+  const raw = sums.map((sum, w) => mean > 0 ? (sum / mean + WEEKDAY_PRIOR) / (counts[w] + WEEKDAY_PRIOR) : 1);
+  const rawMean = raw.reduce((sum, f) => sum + f, 0) / 7;
+  const weekdayFactors = raw.map(f => f / rawMean);
+
+  // Mức nền: trung bình các ngày gần nhất sau khi chia cho hệ số thứ
+  const recent = values.slice(-BASE_WINDOW_DAYS);
+  const recentWeekdays = weekdays.slice(-BASE_WINDOW_DAYS);
+  const base = recent.reduce((sum, v, i) => sum + v / weekdayFactors[recentWeekdays[i]], 0) / recent.length;
+
+  const squaredErrors = values.reduce((sum, v, i) => sum + (v - base * weekdayFactors[weekdays[i]]) ** 2, 0);
+  return { base, weekdayFactors, residualStd: Math.sqrt(squaredErrors / Math.max(1, values.length - 1)) };
+};
+
+/**
+ * Học mô hình từ số liệu theo ngày tới hết ngày `asOf` (ngày không có đơn tính là 0, kể từ ngày có đơn đầu tiên).
+ * Trả về null khi chưa đủ 2 tuần lịch sử.
+ */
+export const buildForecastModel = (stats: DailyStat[], asOf: string): ForecastModel | null => {
+  const history = stats.filter(s => s.date <= asOf);
+  if (history.length === 0) return null;
+
+  const firstDate = history.reduce((min, s) => s.date < min ? s.date : min, history[0].date);
+  const historyDays = Math.min(SEASON_WINDOW_DAYS, daysBetween(firstDate, asOf) + 1);
+  if (historyDays < MIN_HISTORY_DAYS) return null;
+
+  const byDate = new Map(history.map(s => [s.date, s]));
+  const dates = Array.from({ length: historyDays }, (_, i) => addDays(asOf, i - historyDays + 1));
+  const weekdays = dates.map(getWeekday);
+
+  return {
+    asOf,
+    historyDays,
+    series: {
+      revenue: fitSeries(dates.map(d => byDate.get(d)?.revenue || 0), weekdays),
+      orderCount: fitSeries(dates.map(d => byDate.get(d)?.orderCount || 0), weekdays)
+    }
+  };
+};
+
+const predict = (series: SeriesModel, date: string) => series.base * series.weekdayFactors[getWeekday(date)];
+
+/** Dự báo từng ngày trong `days` ngày kể từ ngày sau `model.asOf`. */
+export const forecastDays = (model: ForecastModel, days: number): ForecastPoint[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = addDays(model.asOf, i + 1);
+    const revenue = predict(model.series.revenue, date);
+    const orderCount = predict(model.series.orderCount, date);
+    const revenueMargin = Z_80 * model.series.revenue.residualStd;
+    const orderCountMargin = Z_80 * model.series.orderCount.residualStd;
+    return {
+      date,
+      revenue,
+      revenueLow: Math.max(0, revenue - revenueMargin),
+      revenueHigh: revenue + revenueMargin,
+      orderCount,
+      orderCountLow: Math.max(0, orderCount - orderCountMargin),
+      orderCountHigh: orderCount + orderCountMargin
+    };
+  });
+
+export interface MonthForecast {
+  month: string; // YYYY-MM
+  asOf: string;
+  actualToDate: number; // Doanh thu thực tế đã biết (gồm cả phần đã bán của ngày dở dang)
+  expected: number;
+  low: number;
+  high: number;
+  remainingDays: number; // Số ngày còn phải dự báo (gồm ngày dở dang)
+}
+
+/**
+ * Doanh thu dự kiến cả tháng `month`, chỉ dùng dữ liệu tới hết `asOf`.
+ * `partialRevenue`: doanh thu đã có của ngày sau `asOf` (hôm nay, chưa hết ngày) — ngày đó lấy số lớn hơn giữa thực tế và dự báo.
+ */
+export const forecastMonthTotal = (stats: DailyStat[], month: string, asOf: string, partialRevenue = 0): MonthForecast | null => {
+  const monthStart = `${month}-01`;
+  const monthEnd = addDays(addMonths(monthStart, 1), -1);
+  const model = buildForecastModel(stats, asOf);
+  if (!model) return null;
+
+  const actualToDate = stats
+    .filter(s => s.date >= monthStart && s.date <= asOf && s.date <= monthEnd)
+    .reduce((sum, s) => sum + s.revenue, 0);
+  const firstForecastDay = asOf < monthStart ? monthStart : addDays(asOf, 1);
+  const remainingDays = Math.max(0, daysBetween(firstForecastDay, monthEnd) + 1);
+
+  let predicted = 0;
+  for (let i = 0; i < remainingDays; i++) {
+    const value = predict(model.series.revenue, addDays(firstForecastDay, i));
+    predicted += i === 0 && firstForecastDay === addDays(asOf, 1) ? Math.max(value, partialRevenue) : value;
+  }
+  const known = actualToDate + (remainingDays > 0 ? partialRevenue : 0);
+  // Nhiễu từng ngày coi như độc lập (tăng theo căn bậc hai số ngày), còn sai lệch của mức nền
+  // (trung bình trượt BASE_WINDOW_DAYS ngày) dồn đều lên mọi ngày còn lại
+  const std = model.series.revenue.residualStd;
+  const margin = Z_80 * std * Math.sqrt(remainingDays + remainingDays ** 2 / BASE_WINDOW_DAYS);
+  const expected = actualToDate + predicted;
+
+  return {
+    month,
+    asOf,
+    actualToDate: known,
+    expected,
+    low: Math.max(known, expected - margin),
+    high: expected + margin,
+    remainingDays
+  };
+};
+
+export interface BacktestMonth {
+  month: string;
+  actual: number;
+  fromStart: MonthForecast | null; // Dự báo lập trước ngày 1 (chưa biết ngày nào của tháng)
+  fromMid: MonthForecast | null; // Dự báo lập cuối ngày 14 (đã biết nửa tháng đầu)
+}
+
+export interface BacktestSummary {
+  months: BacktestMonth[]; // Mới nhất trước
+  startError: number | null; // Sai số tuyệt đối trung bình (%) của dự báo đầu tháng
+  midError: number | null;
+  coverage: number | null; // Tỷ lệ (%) tháng có thực tế nằm trong khoảng tin cậy (cả hai mốc)
+}
+
+export const forecastErrorPercent = (forecast: MonthForecast, actual: number) =>
+  actual > 0 ? ((forecast.expected - actual) / actual) * 100 : null;
+
+/** Kiểm tra lại mô hình trên `months` tháng đã qua gần nhất (trước tháng chứa `today`), bỏ qua tháng chưa đủ lịch sử. */
+export const backtestForecast = (stats: DailyStat[], today: string, months = 6): BacktestSummary => {
+  const currentMonthStart = `${today.slice(0, 7)}-01`;
+  const results: BacktestMonth[] = [];
+
+  for (let i = 1; i <= months; i++) {
+    const monthStart = addMonths(currentMonthStart, -i);
+    const month = monthStart.slice(0, 7);
+    const monthEnd = addDays(addMonths(monthStart, 1), -1);
+    const actual = stats.filter(s => s.date >= monthStart && s.date <= monthEnd).reduce((sum, s) => sum + s.revenue, 0);
+    const fromStart = forecastMonthTotal(stats, month, addDays(monthStart, -1));
+    const fromMid = forecastMonthTotal(stats, month, addDays(monthStart, 13));
+    if (!fromStart && !fromMid) break; // Các tháng cũ hơn càng không đủ lịch sử
+    results.push({ month, actual, fromStart, fromMid });
+  }
+
+  const meanAbsError = (pick: (m: BacktestMonth) => MonthForecast | null) => {
+    const errors = results.flatMap(m => {
+      const forecast = pick(m);
+      const error = forecast ? forecastErrorPercent(forecast, m.actual) : null;
+      return error === null ? [] : [Math.abs(error)];
+    });
+    return errors.length > 0 ? errors.reduce((sum, e) => sum + e, 0) / errors.length : null;
+  };
+  const forecasts = results.flatMap(m => [m.fromStart, m.fromMid].filter((f): f is MonthForecast => f !== null).map(f => ({ f, actual: m.actual })));
+  const hits = forecasts.filter(({ f, actual }) => actual >= f.low && actual <= f.high).length;
+
+  return {
+    months: results,
+    startError: meanAbsError(m => m.fromStart),
+    midError: meanAbsError(m => m.fromMid),
+    coverage: forecasts.length > 0 ? (hits / forecasts.length) * 100 : null
+  };
+};
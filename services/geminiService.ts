@@ -1,50 +1,51 @@
-import { GoogleGenAI } from "@google/genai";
-import { DailyStat, AnalysisResult } from '../types';
-
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    console.warn("API_KEY not found in process.env");
-    return null;
+import { DailyStat } from '../types';
+import { AnalysisGranularity } from './analysisSchema';
+
+// Phân tích được thực hiện ở máy chủ (server/index.ts), nơi giữ GEMINI_API_KEY; trình duyệt không bao giờ thấy key
+const ANALYZE_ENDPOINT = '/api/analyze';
+
+/**
+ * Gửi số liệu theo ngày (hoặc đã gom theo `granularity`) lên máy chủ và trả về JSON thô (chưa kiểm tra, xem services/analysisSchema.ts).
+ * Ném lỗi kèm thông báo của máy chủ khi yêu cầu thất bại.
+ */
+export const analyzeSalesData = async (dailyStats: DailyStat[], granularity: AnalysisGranularity): Promise<unknown> => {
+  // Chỉ gửi số liệu tổng hợp, không gửi thông tin khách hàng
+  const payload = {
+    dailyStats: dailyStats.map(d => ({ date: d.date, orderCount: d.orderCount, revenue: d.revenue })),
+    granularity
+  };
+
+  const response = await fetch(ANALYZE_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Máy chủ phân tích trả về lỗi ${response.status}`);
   }
-  return new GoogleGenAI({ apiKey });
+
+  return response.json();
 };
 
-export const analyzeSalesData = async (dailyStats: DailyStat[]): Promise<AnalysisResult | null> => {
-  const ai = getClient();
-  if (!ai) return null;
-
-  // Prepare a lightweight summary of the data for the prompt to save tokens
-  const dataSummary = dailyStats.map(d => `${d.date}: ${d.orderCount} đơn, ${d.revenue.toLocaleString('vi-VN')} đ`).join('\n');
-
-  const prompt = `
-    Bạn là một chuyên gia phân tích dữ liệu kinh doanh.
-    Dưới đây là dữ liệu bán hàng theo ngày (Ngày: Số lượng đơn, Doanh thu):
-    ${dataSummary}
-
-    Hãy phân tích dữ liệu này và trả về kết quả dưới định dạng JSON (chỉ JSON thuần túy, không markdown) với các trường sau:
-    1. "summary": Tổng quan ngắn gọn về hiệu suất bán hàng.
-    2. "trend": Nhận xét về xu hướng tăng/giảm.
-    3. "recommendation": Một lời khuyên ngắn để cải thiện doanh số dựa trên dữ liệu.
-    
-    Hãy trả lời bằng tiếng Việt.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-      }
-    });
-
-    const text = response.text;
-    if (!text) return null;
-    
-    return JSON.parse(text) as AnalysisResult;
-  } catch (error) {
-    console.error("Gemini analysis failed:", error);
-    return null;
+const QUERY_ENDPOINT = '/api/query';
+
+/**
+ * Nhờ mô hình dịch câu hỏi tiếng Việt thành truy vấn có cấu trúc (services/dataQuery.ts).
+ * Chỉ gửi câu hỏi và ngày hôm nay, không gửi dữ liệu bán hàng; trả về JSON thô chưa kiểm tra.
+ */
+export const translateQuestion = async (question: string, today: string): Promise<unknown> => {
+  const response = await fetch(QUERY_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ question, today })
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Máy chủ trả về lỗi ${response.status}`);
   }
-};
\ No newline at end of file
+
+  return response.json();
+};
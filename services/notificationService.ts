@@ -0,0 +1,58 @@
+import { Order } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+export interface NotificationSettings {
+  sound: boolean;
+  browser: boolean;
+}
+
+const SETTINGS_KEY = 'newOrderNotifications';
+
+export const loadNotificationSettings = (): NotificationSettings =>
+  loadFromStorage<NotificationSettings>(SETTINGS_KEY, { sound: false, browser: false });
+
+export const saveNotificationSettings = (settings: NotificationSettings) => {
+  saveToStorage(SETTINGS_KEY, settings);
+};
+
+let audioContext: AudioContext | null = null;
+
+// Tiếng "ding" ngắn bằng Web Audio, không cần file âm thanh
+export const playNewOrderChime = () => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const ctx = audioContext;
+    [880, 1320].forEach((frequency, i) => {
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const start = ctx.currentTime + i * 0.15;
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.4);
+    });
+  } catch (error) {
+    console.warn('Không phát được âm báo:', error);
+  }
+};
+
+export const isBrowserNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isBrowserNotificationSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showNewOrdersNotification = (orders: Order[]) => {
+  if (!isBrowserNotificationSupported() || Notification.permission !== 'granted' || orders.length === 0) return;
+  const total = orders.reduce((sum, o) => sum + o.amount, 0);
+  const names = orders.slice(0, 3).map(o => o.customerName).join(', ');
+  new Notification(`+${orders.length} đơn mới`, {
+    body: `${names}${orders.length > 3 ? '...' : ''} · ${total.toLocaleString('vi-VN')} đ`,
+    tag: 'new-orders'
+  });
+};
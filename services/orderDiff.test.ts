@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { Order, ParseWarning } from '../types';
+import { diffOrders, isEmptyDiff } from './orderDiff';
+
+const DATE_WARNING: ParseWarning = { rowNumber: 2, field: 'date', column: 'thời gian', rawValue: '', assumed: 'Thời điểm tải dữ liệu' };
+
+const order = (id: string, fields: Partial<Order> = {}): Order => ({
+  id, date: '2026-03-15T02:00:00.000Z', amount: 100000, quantity: 1, customerName: 'An', details: 'áo thun', facebookLink: '',
+  originalData: {}, sourceId: 'src', sourceName: 'Sheet', rowNumber: 2, warnings: [], ...fields
+});
+
+const ids = (diff: ReturnType<typeof diffOrders>) => ({
+  added: diff.added.map(o => o.id),
+  changed: diff.changed.map(o => o.id),
+  removed: diff.removed.map(o => o.id)
+});
+
+describe('diffOrders', () => {
+  it('không có thay đổi khi hai lần tải giống nhau', () => {
+    const orders = [order('a'), order('b', { customerName: 'Bình' })];
+    expect(isEmptyDiff(diffOrders(orders, orders.map(o => ({ ...o }))))).toBe(true);
+  });
+
+  it('cùng id nhưng khác nội dung là đơn đã sửa', () => {
+    const next = [order('a', { amount: 150000 }), order('c', { customerName: 'Chi', amount: 300000 })];
+    expect(ids(diffOrders([order('a'), order('b')], next))).toEqual({
+      added: ['c'], changed: ['a'], removed: ['b']
+    });
+  });
+
+  it('bỏ qua ngày thay thế (ô ngày trống) đổi theo thời điểm tải', () => {
+    const before = order('a', { date: '2026-03-15T02:00:00.000Z', warnings: [DATE_WARNING] });
+    const after = order('a', { date: '2026-03-15T02:05:00.000Z', warnings: [DATE_WARNING] });
+    expect(isEmptyDiff(diffOrders([before], [after]))).toBe(true);
+    // Sheet được điền ngày thật: vẫn là thay đổi
+    expect(ids(diffOrders([before], [order('a', { date: '2026-03-14T02:00:00.000Z' })])).changed).toEqual(['a']);
+  });
+
+  it('ghép dòng mất và dòng mới (id băm đổi) khác nhau một trường thành đơn đã sửa', () => {
+    const previous = [order('h1'), order('h2', { customerName: 'Bình', amount: 200000 })];
+    const next = [order('h1b', { amount: 150000 }), order('h3', { customerName: 'Chi', details: 'quần' })];
+    expect(ids(diffOrders(previous, next))).toEqual({ added: ['h3'], changed: ['h1b'], removed: ['h2'] });
+  });
+
+  it('ghép được khi chỉ sửa giờ, hoặc cả hai dòng đều dùng ngày thay thế', () => {
+    expect(ids(diffOrders([order('h1')], [order('h2', { date: '2026-03-15T03:30:00.000Z' })])).changed).toEqual(['h2']);
+    const assumed = { warnings: [DATE_WARNING] };
+    const previous = [order('h1', { ...assumed, date: '2026-03-15T02:00:00.000Z' })];
+    const next = [order('h2', { ...assumed, date: '2026-03-15T02:05:00.000Z', details: 'áo sơ mi' })];
+    expect(ids(diffOrders(previous, next)).changed).toEqual(['h2']);
+  });
+
+  it('hai đơn khác giờ trong cùng ngày, cùng khách và số tiền không bị ghép', () => {
+    const previous = [order('h1', { date: '2026-03-15T02:00:00.000Z' })];
+    const next = [order('h2', { date: '2026-03-15T08:00:00.000Z', details: 'quần jean' })];
+    expect(ids(diffOrders(previous, next))).toEqual({ added: ['h2'], changed: [], removed: ['h1'] });
+  });
+
+  it('mỗi dòng mất chỉ ghép với một dòng mới', () => {
+    const next = [order('h2', { amount: 150000 }), order('h3', { amount: 160000 })];
+    expect(ids(diffOrders([order('h1')], next))).toEqual({ added: ['h3'], changed: ['h2'], removed: [] });
+  });
+
+  it('không ghép dòng khác nguồn', () => {
+    const next = [order('h2', { amount: 150000, sourceId: 'other' })];
+    expect(ids(diffOrders([order('h1')], next))).toEqual({ added: ['h2'], changed: [], removed: ['h1'] });
+  });
+});
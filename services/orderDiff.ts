@@ -0,0 +1,97 @@
+import { Order } from '../types';
+
+export type OrderChangeType = 'added' | 'changed';
+
+export interface OrderDiff {
+  added: Order[];
+  changed: Order[];
+  removed: Order[];
+}
+
+// Các trường được so sánh để xác định một đơn (cùng id) đã bị sửa trong Sheet
+const COMPARED_FIELDS: (keyof Order)[] = ['date', 'amount', 'quantity', 'customerName', 'details', 'facebookLink'];
+
+// Ô ngày trống / không đọc được được thay bằng thời điểm tải, nên đổi sau mỗi lần tải dù Sheet không đổi
+const hasAssumedDate = (order: Order) => order.warnings.some(w => w.field === 'date');
+
+const isFieldChanged = (before: Order, after: Order, field: keyof Order) =>
+  field === 'date' && hasAssumedDate(before) && hasAssumedDate(after) ? false : before[field] !== after[field];
+
+// Khóa "nới lỏng" của một dòng: mỗi khóa bỏ bớt một trong 4 trường thời điểm / tên khách / số tiền / chi tiết.
+// Thời điểm lấy đủ giờ phút để hai đơn khác nhau cùng ngày, cùng khách, cùng số tiền không bị ghép thành một;
+// ngày thay thế (đổi sau mỗi lần tải) dùng chung một giá trị.
+const looseKeys = (order: Order) => {
+  const normalize = (v: string) => v.replace(/\s+/g, ' ').trim().toLowerCase();
+  const parts = [hasAssumedDate(order) ? '?' : order.date, normalize(order.customerName), String(order.amount), normalize(order.details)];
+  return parts.map((_, skip) => `${order.sourceId}|${skip}|${parts.filter((_, i) => i !== skip).join('|')}`);
+};
+
+/**
+ * So sánh hai lần tải dữ liệu theo `Order.id` (id ổn định giữa các lần tải).
+ * Khi Sheet không có cột mã đơn, id băm từ nội dung nên sửa một ô cũng làm đổi id: dòng mới và dòng mất
+ * cùng nguồn, giống nhau ở ít nhất 3 trong 4 trường trên được ghép lại và tính là một đơn đã sửa.
+ */
+export const diffOrders = (previous: Order[], next: Order[]): OrderDiff => {
+  const previousById = new Map(previous.map(o => [o.id, o]));
+  const nextIds = new Set(next.map(o => o.id));
+
+  const unmatched: Order[] = [];
+  const changed: Order[] = [];
+  next.forEach(order => {
+    const before = previousById.get(order.id);
+    if (!before) {
+      unmatched.push(order);
+    } else if (COMPARED_FIELDS.some(field => isFieldChanged(before, order, field))) {
+      changed.push(order);
+    }
+  });
+
+  const missing = previous.filter(o => !nextIds.has(o.id));
+  const missingByKey = new Map<string, Order[]>();
+  missing.forEach(order => looseKeys(order).forEach(key => {
+    const list = missingByKey.get(key);
+    if (list) list.push(order);
+    else missingByKey.set(key, [order]);
+  }));
+
+  const pairedIds = new Set<string>();
+  const added: Order[] = [];
+  unmatched.forEach(order => {
+    const match = looseKeys(order)
+      .map(key => missingByKey.get(key)?.find(o => !pairedIds.has(o.id)))
+      .find(o => o !== undefined);
+    if (match) {
+      pairedIds.add(match.id);
+      changed.push(order);
+    } else {
+      added.push(order);
+    }
+  });
+
+  const removed = missing.filter(o => !pairedIds.has(o.id));
+  return { added, changed, removed };
+};
+
+export const isEmptyDiff = (diff: OrderDiff) =>
+  diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0;
+
+// Thời gian giữ highlight cho các dòng mới / sửa / xóa
+export const HIGHLIGHT_DURATION = 3 * 60 * 1000;
+
+export interface ChangeMark {
+  type: OrderChangeType;
+  at: number;
+}
+
+export interface RemovedMark {
+  order: Order;
+  at: number;
+}
+
+export const pruneChangeMarks = (marks: Record<string, ChangeMark>, now = Date.now()) => {
+  const next: Record<string, ChangeMark> = {};
+  Object.entries(marks).forEach(([id, mark]) => {
+    if (now - mark.at < HIGHLIGHT_DURATION) next[id] = mark;
+  });
+  return next;
+};
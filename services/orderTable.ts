@@ -0,0 +1,66 @@
+import { Order } from '../types';
+import { normalizeName } from './customerService';
+
+export type OrderTableMode = 'grouped' | 'raw';
+
+export type OrderSortKey = 'date' | 'customerName' | 'quantity' | 'amount' | 'subOrderCount';
+
+export interface OrderTableFilters {
+  query: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  minQuantity: number | null;
+  maxQuantity: number | null;
+}
+
+export const EMPTY_ORDER_FILTERS: OrderTableFilters = {
+  query: '',
+  minAmount: null,
+  maxAmount: null,
+  minQuantity: null,
+  maxQuantity: null
+};
+
+export const hasActiveFilters = (filters: OrderTableFilters) =>
+  filters.query.trim() !== '' || [filters.minAmount, filters.maxAmount, filters.minQuantity, filters.maxQuantity].some(v => v !== null);
+
+/**
+ * Chuỗi tìm kiếm (đã bỏ dấu) của từng dòng: tên khách + nội dung đơn.
+ * Tính một lần cho cả danh sách để mỗi lần gõ chỉ còn so chuỗi, đủ nhanh với hàng chục nghìn dòng.
+ */
+export const buildSearchIndex = (rows: Order[]): Map<string, string> =>
+  new Map(rows.map(row => [row.id, normalizeName(`${row.customerName} ${row.details}`)]));
+
+const inRange = (value: number, min: number | null, max: number | null) =>
+  (min === null || value >= min) && (max === null || value <= max);
+
+const subOrderCount = (row: Order) => row.subOrders?.length || 1;
+
+const compareBy = (key: OrderSortKey) => (a: Order, b: Order) => {
+  switch (key) {
+    case 'date': return new Date(a.date).getTime() - new Date(b.date).getTime();
+    case 'customerName': return a.customerName.localeCompare(b.customerName, 'vi');
+    case 'subOrderCount': return subOrderCount(a) - subOrderCount(b) || a.amount - b.amount;
+    default: return a[key] - b[key];
+  }
+};
+
+/** Lọc theo từ khóa (mọi từ đều phải có, không phân biệt dấu) và khoảng tiền / số lượng, rồi sắp xếp. */
+export const queryOrders = (
+  rows: Order[],
+  searchIndex: Map<string, string>,
+  filters: OrderTableFilters,
+  sortKey: OrderSortKey,
+  sortDesc: boolean
+): Order[] => {
+  const terms = normalizeName(filters.query).split(' ').filter(Boolean);
+  const filtered = rows.filter(row => {
+    if (!inRange(row.amount, filters.minAmount, filters.maxAmount)) return false;
+    if (!inRange(row.quantity, filters.minQuantity, filters.maxQuantity)) return false;
+    if (terms.length === 0) return true;
+    const text = searchIndex.get(row.id) || '';
+    return terms.every(term => text.includes(term));
+  });
+  const compare = compareBy(sortKey);
+  return filtered.sort((a, b) => sortDesc ? compare(b, a) : compare(a, b));
+};
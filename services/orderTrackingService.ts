@@ -0,0 +1,88 @@
+import { Order, OrderStatus, OrderTracking, PaymentStatus } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const TRACKING_KEY = 'orderTracking';
+const STATUS_FILTER_KEY = 'orderStatusFilter';
+
+export const ORDER_STATUSES: { id: OrderStatus; label: string; color: string }[] = [
+  { id: 'confirmed', label: 'Chốt', color: 'bg-blue-100 text-blue-700' },
+  { id: 'shipped', label: 'Đã gửi', color: 'bg-indigo-100 text-indigo-700' },
+  { id: 'delivered', label: 'Đã giao', color: 'bg-green-100 text-green-700' },
+  { id: 'returned', label: 'Hoàn', color: 'bg-red-100 text-red-700' },
+  { id: 'cancelled', label: 'Hủy', color: 'bg-gray-200 text-gray-600' },
+];
+
+export const PAYMENT_STATUSES: { id: PaymentStatus; label: string }[] = [
+  { id: 'unpaid', label: 'Chưa thanh toán' },
+  { id: 'deposit', label: 'Đã cọc' },
+  { id: 'paid', label: 'Đã thanh toán' },
+];
+
+// Đơn chưa được đánh dấu: coi như đã chốt, chưa thanh toán
+export const DEFAULT_TRACKING: Omit<OrderTracking, 'updatedAt'> = {
+  status: 'confirmed',
+  payment: 'unpaid',
+  shippingCode: '',
+  note: ''
+};
+
+// Doanh thu của các đơn này không được tính là doanh thu thực
+const LOST_STATUSES: OrderStatus[] = ['returned', 'cancelled'];
+
+export const getStatusInfo = (status: OrderStatus) => ORDER_STATUSES.find(s => s.id === status) || ORDER_STATUSES[0];
+
+export const isLostStatus = (status: OrderStatus) => LOST_STATUSES.includes(status);
+
+export const loadOrderTracking = (): Record<string, OrderTracking> => loadFromStorage(TRACKING_KEY, {});
+
+export const saveOrderTracking = (tracking: Record<string, OrderTracking>) => {
+  saveToStorage(TRACKING_KEY, tracking);
+};
+
+export const loadStatusFilter = (): OrderStatus[] => {
+  const ids = loadFromStorage<OrderStatus[]>(STATUS_FILTER_KEY, []);
+  return Array.isArray(ids) ? ids.filter(id => ORDER_STATUSES.some(s => s.id === id)) : [];
+};
+
+export const saveStatusFilter = (statuses: OrderStatus[]) => {
+  saveToStorage(STATUS_FILTER_KEY, statuses);
+};
+
+export const getOrderTracking = (tracking: Record<string, OrderTracking>, orderId: string): OrderTracking =>
+  tracking[orderId] || { ...DEFAULT_TRACKING, updatedAt: 0 };
+
+/** Cập nhật thông tin một đơn; đơn quay về mặc định thì bỏ khỏi bộ nhớ để không phình dữ liệu. */
+export const updateOrderTracking = (
+  tracking: Record<string, OrderTracking>,
+  orderId: string,
+  patch: Partial<Omit<OrderTracking, 'updatedAt'>>
+): Record<string, OrderTracking> => {
+  const { [orderId]: current, ...rest } = tracking;
+  const next = { ...(current || DEFAULT_TRACKING), ...patch, updatedAt: Date.now() };
+  const isDefault = (Object.keys(DEFAULT_TRACKING) as (keyof typeof DEFAULT_TRACKING)[])
+    .every(field => next[field] === DEFAULT_TRACKING[field]);
+  return isDefault ? rest : { ...rest, [orderId]: next };
+};
+
+/** Lọc đơn theo trạng thái; danh sách trạng thái rỗng = không lọc. */
+export const filterOrdersByStatus = (orders: Order[], tracking: Record<string, OrderTracking>, statuses: OrderStatus[]) =>
+  statuses.length === 0
+    ? orders
+    : orders.filter(o => statuses.includes(getOrderTracking(tracking, o.id).status));
+
+export interface RevenueSplit {
+  confirmed: number; // Chốt / đã gửi / đã giao
+  lost: number; // Hoàn / hủy
+  lostCount: number;
+}
+
+export const splitRevenueByStatus = (orders: Order[], tracking: Record<string, OrderTracking>): RevenueSplit =>
+  orders.reduce((split, order) => {
+    if (isLostStatus(getOrderTracking(tracking, order.id).status)) {
+      split.lost += order.amount;
+      split.lostCount += 1;
+    } else {
+      split.confirmed += order.amount;
+    }
+    return split;
+  }, { confirmed: 0, lost: 0, lostCount: 0 });
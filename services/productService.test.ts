@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { Product } from '../types';
+import { matchProducts } from './productService';
+
+const CATALOG: Product[] = [
+  { id: 'ao', name: 'Áo thun', sku: '', unitPrice: 150000, aliases: ['ao phong'] },
+  { id: 'quan', name: 'Quần jean', sku: '', unitPrice: 300000, aliases: [] },
+];
+
+describe('matchProducts', () => {
+  it('đọc số lượng, size và màu của từng sản phẩm, không phân biệt dấu', () => {
+    expect(matchProducts('2 áo thun đen size L, quan jean x3 mau trang', CATALOG)).toEqual([
+      { productId: 'ao', quantity: 2, size: 'L', color: 'Đen' },
+      { productId: 'quan', quantity: 3, size: undefined, color: 'Trắng' },
+    ]);
+  });
+
+  it('số của size ngay trước sản phẩm kế tiếp không bị đọc thành số lượng', () => {
+    expect(matchProducts('áo thun size 38 quần jean', CATALOG)).toEqual([
+      { productId: 'ao', quantity: 1, size: '38', color: undefined },
+      { productId: 'quan', quantity: 1, size: undefined, color: undefined },
+    ]);
+    expect(matchProducts('áo thun size 38 2 quần jean', CATALOG)[1]).toMatchObject({ productId: 'quan', quantity: 2 });
+  });
+
+  it('"có" không bị hiểu là "cỡ"', () => {
+    expect(matchProducts('áo thun có 10 cái màu cam', CATALOG)).toEqual([
+      { productId: 'ao', quantity: 10, size: undefined, color: 'Cam' },
+    ]);
+    expect(matchProducts('áo thun cỡ 40, ao phong co XL', CATALOG).map(m => m.size)).toEqual(['40', 'XL']);
+  });
+
+  it('emoji (hai đơn vị UTF-16) không làm lệch vị trí giữa chuỗi gốc và chuỗi bỏ dấu', () => {
+    expect(matchProducts('🔥🔥 áo phông đen 🎁 2 quần jean trắng', CATALOG)).toEqual([
+      { productId: 'ao', quantity: 1, size: undefined, color: 'Đen' },
+      { productId: 'quan', quantity: 2, size: undefined, color: 'Trắng' },
+    ]);
+  });
+});
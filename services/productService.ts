@@ -0,0 +1,245 @@
+import { Order, Product, ProductMatch } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+import { toDateKey } from './dateUtils';
+import { Granularity, getBucketKey } from './statsService';
+
+const CATALOG_KEY = 'productCatalog';
+
+export const loadProducts = (): Product[] => loadFromStorage<Product[]>(CATALOG_KEY, []);
+
+export const saveProducts = (products: Product[]) => {
+  saveToStorage(CATALOG_KEY, products);
+};
+
+export const createProductId = () => `prd-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// "áo thun, ao phong\nÁo cotton" -> ['áo thun', 'ao phong', 'Áo cotton']
+export const parseAliases = (text: string) =>
+  text.split(/[,;\n]/).map(a => a.trim()).filter(Boolean);
+
+export const validateProduct = (product: Pick<Product, 'name' | 'unitPrice'>): string | null => {
+  if (!product.name.trim()) return 'Vui lòng nhập tên sản phẩm.';
+  if (!Number.isFinite(product.unitPrice) || product.unitPrice < 0) return 'Đơn giá không hợp lệ.';
+  return null;
+};
+
+// Bỏ dấu từng đơn vị UTF-16 (regex không cờ u), giữ nguyên độ dài chuỗi để vị trí khớp trên chuỗi bỏ dấu
+// dùng được cho chuỗi gốc, kể cả khi có emoji (ký tự gồm hai đơn vị UTF-16, được giữ nguyên)
+const foldText = (lower: string) =>
+  lower.replace(/[^\x00-\x7f]/g, ch => ch === 'đ' ? 'd' : ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '')[0] ?? ch);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const wordPattern = (word: string, flags = 'gu') =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, flags);
+
+// Màu sắc: khớp từ có dấu ("đen"), hoặc sau chữ "màu" khi khách gõ không dấu ("mau den").
+// `prefixOnly`: từ dễ nhầm với từ thường ("cam kết", "kem", "ghi chú") chỉ nhận khi có chữ "màu" phía trước.
+const COLORS: { label: string; words: string[]; prefixOnly?: boolean }[] = [
+  { label: 'Xanh dương', words: ['xanh dương', 'xanh biển', 'xanh da trời'] },
+  { label: 'Xanh lá', words: ['xanh lá', 'xanh lục'] },
+  { label: 'Xanh navy', words: ['xanh navy', 'navy', 'xanh đen'] },
+  { label: 'Xanh rêu', words: ['xanh rêu'] },
+  { label: 'Xanh', words: ['xanh'] },
+  { label: 'Đen', words: ['đen'] },
+  { label: 'Trắng', words: ['trắng'] },
+  { label: 'Đỏ', words: ['đỏ', 'đô'] },
+  { label: 'Vàng', words: ['vàng'] },
+  { label: 'Hồng', words: ['hồng'] },
+  { label: 'Tím', words: ['tím'] },
+  { label: 'Xám', words: ['xám', 'ghi'], prefixOnly: true },
+  { label: 'Nâu', words: ['nâu'] },
+  { label: 'Be', words: ['be', 'beige'], prefixOnly: true },
+  { label: 'Kem', words: ['kem'], prefixOnly: true },
+  { label: 'Cam', words: ['cam'], prefixOnly: true },
+];
+
+const COLOR_PATTERNS = COLORS.map(color => ({
+  label: color.label,
+  exact: color.prefixOnly ? [] : color.words.map(w => wordPattern(w, 'u')),
+  afterPrefix: color.words.map(w => wordPattern(`mau ${foldText(w)}`, 'u'))
+}));
+
+const findColor = (lower: string, folded: string) => {
+  for (const color of COLOR_PATTERNS) {
+    if (color.exact.some(p => p.test(lower)) || color.afterPrefix.some(p => p.test(folded))) return color.label;
+  }
+  return undefined;
+};
+
+// "size L", "sz: XL", "size 38", "cỡ M"; đọc trên chuỗi còn dấu để "có 10 cái" không thành size 10.
+// "co" không dấu chỉ nhận kèm size chữ ("co M"), vì "co 10" thường là "có 10".
+const SIZE_PATTERN = /(?<![\p{L}\p{N}])(?:(?:size|sz|sai|cỡ)\s*:?\s*(\d?xl|xxx?l|xs|s|m|l|\d{2})|co\s*:?\s*(\d?xl|xxx?l|xs|s|m|l))(?![\p{L}\p{N}])/u;
+
+const findSize = (lower: string) => {
+  const match = lower.match(SIZE_PATTERN);
+  return match ? (match[1] || match[2]).toUpperCase() : undefined;
+};
+
+// Bỏ các cụm size khỏi đoạn trước tên sản phẩm để số của size ("size 38 quần") không bị đọc thành số lượng
+const stripSizes = (lower: string) => lower.replace(new RegExp(SIZE_PATTERN.source, 'gu'), ' ');
+
+// Số lượng ngay trước tên sản phẩm ("2 áo", "combo 2 áo", "2x áo", "2 cái áo") hoặc ngay sau ("áo x2", "áo sl 3", "áo có 10 cái")
+const QUANTITY_BEFORE = /(?<![\p{L}\p{N}])(\d{1,3})\s*(?:x|cai|chiec|bo|sp)?\s*$/u;
+const QUANTITY_AFTER = /^\s*(?:(?:x|sl|so luong)\s*:?\s*(\d{1,3})(?!\p{N})|co\s+(\d{1,3})\s*(?:cai|chiec|bo)(?![\p{L}\p{N}]))/u;
+
+interface AliasHit {
+  productId: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Nhận diện sản phẩm trong nội dung đơn: tìm tên / từ khóa của từng sản phẩm (không phân biệt dấu, ưu tiên từ khóa dài hơn),
+ * rồi đọc số lượng, size, màu trong đoạn văn bản tới sản phẩm kế tiếp.
+ */
+export const matchProducts = (details: string, catalog: Product[]): Omit<ProductMatch, 'revenue'>[] => {
+  const lower = details.normalize('NFC').toLowerCase();
+  const folded = foldText(lower);
+
+  const aliases = catalog
+    .flatMap(product => [product.name, ...product.aliases].map(alias => ({ productId: product.id, alias: foldText(alias.normalize('NFC').toLowerCase().trim()) })))
+    .filter(a => a.alias)
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  const hits: AliasHit[] = [];
+  const taken = new Array(folded.length).fill(false);
+  aliases.forEach(({ productId, alias }) => {
+    for (const match of folded.matchAll(wordPattern(alias))) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (taken.slice(start, end).some(Boolean)) continue;
+      taken.fill(true, start, end);
+      hits.push({ productId, start, end });
+    }
+  });
+  hits.sort((a, b) => a.start - b.start);
+
+  return hits.map((hit, i) => {
+    const segmentEnd = i + 1 < hits.length ? hits[i + 1].start : folded.length;
+    const segmentStart = i > 0 ? hits[i - 1].end : 0;
+    const before = foldText(stripSizes(lower.slice(segmentStart, hit.start))).match(QUANTITY_BEFORE);
+    const after = folded.slice(hit.end, segmentEnd).match(QUANTITY_AFTER);
+    const quantity = Number(before?.[1] || after?.[1] || after?.[2]) || 1;
+
+    return {
+      productId: hit.productId,
+      quantity,
+      size: findSize(lower.slice(hit.start, segmentEnd)),
+      color: findColor(lower.slice(hit.start, segmentEnd), folded.slice(hit.start, segmentEnd))
+    };
+  });
+};
+
+/**
+ * Sản phẩm của từng đơn, kèm phần doanh thu phân bổ: theo đơn giá × số lượng nếu mọi sản phẩm đều có đơn giá,
+ * nếu không thì theo số lượng.
+ */
+export const matchOrderProducts = (orders: Order[], catalog: Product[]): Map<string, ProductMatch[]> => {
+  const priceById = new Map(catalog.map(p => [p.id, p.unitPrice]));
+  const result = new Map<string, ProductMatch[]>();
+  if (catalog.length === 0) return result;
+
+  orders.forEach(order => {
+    const matches = matchProducts(order.details, catalog);
+    if (matches.length === 0) return;
+
+    const usePrice = matches.every(m => (priceById.get(m.productId) || 0) > 0);
+    const weights = matches.map(m => m.quantity * (usePrice ? priceById.get(m.productId)! : 1));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    result.set(order.id, matches.map((m, i) => ({ ...m, revenue: order.amount * weights[i] / totalWeight })));
+  });
+  return result;
+};
+
+export interface ProductStat {
+  product: Product;
+  quantity: number;
+  orderCount: number;
+  revenue: number;
+  sizes: { label: string; count: number }[]; // Nhiều nhất trước
+  colors: { label: string; count: number }[];
+}
+
+export interface UnmatchedDetail {
+  text: string;
+  count: number;
+  revenue: number;
+}
+
+const rankCounts = (counts: Map<string, number>) =>
+  Array.from(counts.entries()).map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count);
+
+/** Bảng sản phẩm bán chạy (theo doanh thu) và các nội dung đơn chưa nhận diện được sản phẩm nào. */
+export const buildProductReport = (orders: Order[], catalog: Product[], matchesByOrderId: Map<string, ProductMatch[]>) => {
+  const stats = new Map<string, { quantity: number; orderIds: Set<string>; revenue: number; sizes: Map<string, number>; colors: Map<string, number> }>();
+  const unmatched = new Map<string, UnmatchedDetail>();
+
+  orders.forEach(order => {
+    const matches = matchesByOrderId.get(order.id);
+    if (!matches) {
+      const text = order.details.trim();
+      if (!text) return;
+      const key = text.toLowerCase();
+      const entry = unmatched.get(key) || { text, count: 0, revenue: 0 };
+      entry.count++;
+      entry.revenue += order.amount;
+      unmatched.set(key, entry);
+      return;
+    }
+
+    matches.forEach(m => {
+      if (!stats.has(m.productId)) {
+        stats.set(m.productId, { quantity: 0, orderIds: new Set(), revenue: 0, sizes: new Map(), colors: new Map() });
+      }
+      const stat = stats.get(m.productId)!;
+      stat.quantity += m.quantity;
+      stat.orderIds.add(order.id);
+      stat.revenue += m.revenue;
+      if (m.size) stat.sizes.set(m.size, (stat.sizes.get(m.size) || 0) + m.quantity);
+      if (m.color) stat.colors.set(m.color, (stat.colors.get(m.color) || 0) + m.quantity);
+    });
+  });
+
+  const products: ProductStat[] = catalog
+    .filter(product => stats.has(product.id))
+    .map(product => {
+      const stat = stats.get(product.id)!;
+      return {
+        product,
+        quantity: stat.quantity,
+        orderCount: stat.orderIds.size,
+        revenue: stat.revenue,
+        sizes: rankCounts(stat.sizes),
+        colors: rankCounts(stat.colors)
+      };
+    })
+    .sort((a, b) => b.revenue - a.revenue);
+
+  return {
+    products,
+    unmatched: Array.from(unmatched.values()).sort((a, b) => b.count - a.count)
+  };
+};
+
+/** Số lượng bán theo ngày / tuần / tháng / quý của các sản phẩm `productIds`: [{ date, [productId]: số lượng }]. */
+export const buildProductSalesSeries = (
+  orders: Order[],
+  matchesByOrderId: Map<string, ProductMatch[]>,
+  productIds: string[],
+  granularity: Granularity
+) => {
+  const wanted = new Set(productIds);
+  const buckets = new Map<string, Record<string, number | string>>();
+
+  orders.forEach(order => {
+    const matches = (matchesByOrderId.get(order.id) || []).filter(m => wanted.has(m.productId));
+    if (matches.length === 0) return;
+    const key = getBucketKey(toDateKey(order.date), granularity);
+    if (!buckets.has(key)) buckets.set(key, { date: key, ...Object.fromEntries(productIds.map(id => [id, 0])) });
+    const bucket = buckets.get(key)!;
+    matches.forEach(m => { bucket[m.productId] = (bucket[m.productId] as number) + m.quantity; });
+  });
+
+  return Array.from(buckets.values()).sort((a, b) => String(a.date).localeCompare(String(b.date)));
+};
@@ -0,0 +1,55 @@
+import { loadFromStorage, saveToStorage } from './storage';
+
+export type RefreshIntervalId = 'live' | '1m' | '5m' | '15m' | 'paused';
+
+export const REFRESH_INTERVALS: { id: RefreshIntervalId; label: string; ms: number | null }[] = [
+  { id: 'live', label: 'Live (30 giây)', ms: 30 * 1000 },
+  { id: '1m', label: '1 phút', ms: 60 * 1000 },
+  { id: '5m', label: '5 phút', ms: 5 * 60 * 1000 },
+  { id: '15m', label: '15 phút', ms: 15 * 60 * 1000 },
+  { id: 'paused', label: 'Tạm dừng', ms: null },
+];
+
+const INTERVAL_KEY = 'refreshInterval';
+const DEFAULT_INTERVAL: RefreshIntervalId = '5m';
+
+// Giới hạn trên của thời gian chờ khi lỗi liên tiếp
+export const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+export const loadRefreshInterval = (): RefreshIntervalId => {
+  const id = loadFromStorage<RefreshIntervalId>(INTERVAL_KEY, DEFAULT_INTERVAL);
+  return REFRESH_INTERVALS.some(i => i.id === id) ? id : DEFAULT_INTERVAL;
+};
+
+export const saveRefreshInterval = (id: RefreshIntervalId) => {
+  saveToStorage(INTERVAL_KEY, id);
+};
+
+export const getIntervalMs = (id: RefreshIntervalId) => REFRESH_INTERVALS.find(i => i.id === id)?.ms ?? null;
+
+/**
+ * Thời gian chờ đến lần làm mới kế tiếp: bằng chu kỳ đã chọn khi lần trước thành công,
+ * nhân đôi sau mỗi lần lỗi liên tiếp (tối đa MAX_BACKOFF_MS, nhưng không ngắn hơn chu kỳ).
+ */
+export const computeRefreshDelay = (intervalMs: number, failureCount: number) => {
+  if (failureCount <= 0) return intervalMs;
+  return Math.max(intervalMs, Math.min(intervalMs * 2 ** failureCount, MAX_BACKOFF_MS));
+};
+
+export interface RefreshStatus {
+  lastAttemptAt: number | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string;
+  failureCount: number; // Số lần lỗi liên tiếp
+}
+
+export const INITIAL_REFRESH_STATUS: RefreshStatus = {
+  lastAttemptAt: null,
+  lastSuccessAt: null,
+  lastFailureAt: null,
+  lastError: '',
+  failureCount: 0
+};
+
+export type RefreshPauseReason = 'paused' | 'hidden' | 'offline' | null;
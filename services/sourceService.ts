@@ -0,0 +1,63 @@
+import { DataSource, DataSourceType } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const SOURCES_KEY = 'sources';
+const SELECTED_SOURCES_KEY = 'selectedSources';
+
+// Nguồn mặc định: Google Sheet Published CSV ban đầu của ứng dụng
+export const DEFAULT_SOURCE: DataSource = {
+  id: 'default',
+  name: 'Google Sheet chính',
+  url: 'https://docs.google.com/spreadsheets/d/e/2PACX-1vSIGSB-s0s175VQKxGEwebzkcw5dRiRm152QKSXSN4KOymLgYGYCoZCJRwVV_1jVy9gcN2YrHm71bBr/pub?output=csv',
+  type: 'google_sheet'
+};
+
+export const SOURCE_TYPE_LABELS: Record<DataSourceType, string> = {
+  google_sheet: 'Google Sheet',
+  csv: 'File CSV (URL)'
+};
+
+export const loadSources = (): DataSource[] => {
+  const sources = loadFromStorage<DataSource[]>(SOURCES_KEY, []);
+  return Array.isArray(sources) && sources.length > 0 ? sources : [DEFAULT_SOURCE];
+};
+
+export const saveSources = (sources: DataSource[]) => {
+  saveToStorage(SOURCES_KEY, sources);
+};
+
+export const loadSelectedSourceIds = (sources: DataSource[]): string[] => {
+  const ids = loadFromStorage<string[]>(SELECTED_SOURCES_KEY, []);
+  const valid = Array.isArray(ids) ? ids.filter(id => sources.some(s => s.id === id)) : [];
+  return valid.length > 0 ? valid : [sources[0].id];
+};
+
+export const saveSelectedSourceIds = (ids: string[]) => {
+  saveToStorage(SELECTED_SOURCES_KEY, ids);
+};
+
+export const createSourceId = () => `src-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Chuyển link Google Sheet thông thường (…/spreadsheets/d/<id>/edit#gid=…) sang link xuất CSV.
+ * Link đã publish (…/pub?output=csv) hoặc nguồn CSV được giữ nguyên.
+ */
+export const getSourceCsvUrl = (source: DataSource): string => {
+  const url = source.url.trim();
+  if (source.type !== 'google_sheet' || url.includes('/pub') || url.includes('format=csv')) {
+    return url;
+  }
+
+  const idMatch = url.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  if (!idMatch) return url;
+
+  const gidMatch = url.match(/[#&?]gid=(\d+)/);
+  const gid = gidMatch ? `&gid=${gidMatch[1]}` : '';
+  return `https://docs.google.com/spreadsheets/d/${idMatch[1]}/export?format=csv${gid}`;
+};
+
+export const validateSource = (source: Pick<DataSource, 'name' | 'url'>): string | null => {
+  if (!source.name.trim()) return 'Vui lòng nhập tên nguồn dữ liệu.';
+  if (!/^https?:\/\//i.test(source.url.trim())) return 'Đường dẫn phải bắt đầu bằng http:// hoặc https://';
+  return null;
+};
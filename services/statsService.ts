@@ -0,0 +1,256 @@
+import { Order, DailyStat } from '../types';
+import { toDateKey, addDays, addMonths, daysBetween, startOfWeek, formatDateKey, getZonedParts } from './dateUtils';
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+export interface ComparisonRange extends DateRange {
+  label: string; // VD: "so với hôm qua"
+}
+
+export type Trend = 'up' | 'down' | 'neutral';
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter';
+
+export const GRANULARITIES: { id: Granularity; label: string }[] = [
+  { id: 'day', label: 'Ngày' },
+  { id: 'week', label: 'Tuần' },
+  { id: 'month', label: 'Tháng' },
+  { id: 'quarter', label: 'Quý' },
+];
+
+export interface Delta {
+  absolute: number;
+  percent: number | null; // null khi kỳ trước bằng 0
+  trend: Trend;
+}
+
+export const filterOrdersByRange = (orders: Order[], start: string, end: string) =>
+  orders.filter(order => {
+    const dateKey = toDateKey(order.date);
+    return (!start || dateKey >= start) && (!end || dateKey <= end);
+  });
+
+// Gom đơn theo ngày (múi giờ kinh doanh), sắp xếp tăng dần
+export const buildDailyStats = (orders: Order[]): DailyStat[] => {
+  const statsMap = new Map<string, DailyStat>();
+
+  orders.forEach(order => {
+    const dateKey = toDateKey(order.date);
+    const current = statsMap.get(dateKey) || { date: dateKey, orderCount: 0, revenue: 0 };
+    current.orderCount += order.quantity;
+    current.revenue += order.amount;
+    statsMap.set(dateKey, current);
+  });
+
+  return Array.from(statsMap.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Thêm số khách mới / khách quay lại cho từng ngày: khách là "mới" vào đúng ngày mua đầu tiên
+ * trong toàn bộ lịch sử (`firstOrderDayByKey`), các ngày mua sau đó tính là quay lại.
+ */
+export const addCustomerMix = (
+  stats: DailyStat[],
+  orders: Order[],
+  customerKeyByOrderId: Map<string, string>,
+  firstOrderDayByKey: Map<string, string>
+): DailyStat[] => {
+  const customersByDay = new Map<string, Set<string>>();
+  orders.forEach(order => {
+    const dateKey = toDateKey(order.date);
+    const key = customerKeyByOrderId.get(order.id) || order.customerName;
+    if (!customersByDay.has(dateKey)) customersByDay.set(dateKey, new Set());
+    customersByDay.get(dateKey)!.add(key);
+  });
+
+  return stats.map(stat => {
+    const customers = Array.from(customersByDay.get(stat.date) || []);
+    const newCustomers = customers.filter(key => firstOrderDayByKey.get(key) === stat.date).length;
+    return { ...stat, newCustomers, returningCustomers: customers.length - newCustomers };
+  });
+};
+
+export const summarizeStats = (stats: DailyStat[]) => {
+  const revenue = stats.reduce((sum, day) => sum + day.revenue, 0);
+  const quantity = stats.reduce((sum, day) => sum + day.orderCount, 0);
+  return { revenue, quantity, average: quantity > 0 ? revenue / quantity : 0 };
+};
+
+/**
+ * Kỳ so sánh tương ứng với bộ lọc ngày đang chọn:
+ * hôm nay/hôm qua -> ngày liền trước; tuần/tháng/quý/năm này -> cùng số ngày đầu kỳ trước;
+ * tuần trước/tháng trước -> trọn kỳ liền trước đó; còn lại (N ngày qua, tùy chỉnh) -> khoảng liền trước
+ * có cùng số ngày. Không so sánh khi xem toàn bộ.
+ */
+export const getComparisonRange = (filter: string, start: string, end: string): ComparisonRange | null => {
+  if (!start || !end || filter === 'all') return null;
+
+  switch (filter) {
+    case 'today':
+      return { start: addDays(start, -1), end: addDays(end, -1), label: 'so với hôm qua' };
+    case 'yesterday':
+      return { start: addDays(start, -1), end: addDays(end, -1), label: 'so với hôm kia' };
+    case 'thisWeek':
+      return { start: addDays(start, -7), end: addDays(end, -7), label: 'so với cùng kỳ tuần trước' };
+    case 'lastWeek':
+      return { start: addDays(start, -7), end: addDays(end, -7), label: 'so với tuần trước đó' };
+    case 'thisMonth':
+      return { start: addMonths(start, -1), end: addMonths(end, -1), label: 'so với cùng kỳ tháng trước' };
+    case 'lastMonth':
+      return { start: addMonths(start, -1), end: addDays(start, -1), label: 'so với tháng trước đó' };
+    case 'thisQuarter':
+      return { start: addMonths(start, -3), end: addMonths(end, -3), label: 'so với cùng kỳ quý trước' };
+    case 'thisYear':
+      return { start: addMonths(start, -12), end: addMonths(end, -12), label: 'so với cùng kỳ năm trước' };
+  }
+
+  const length = daysBetween(start, end) + 1;
+  return {
+    start: addDays(start, -length),
+    end: addDays(start, -1),
+    label: length === 1 ? 'so với ngày trước đó' : `so với ${length} ngày trước đó`
+  };
+};
+
+export const computeDelta = (current: number, previous: number): Delta => {
+  const absolute = current - previous;
+  return {
+    absolute,
+    percent: previous !== 0 ? (absolute / previous) * 100 : null,
+    trend: absolute > 0 ? 'up' : absolute < 0 ? 'down' : 'neutral'
+  };
+};
+
+/**
+ * Ghép doanh thu kỳ so sánh vào từng ngày của kỳ hiện tại, theo vị trí ngày trong kỳ
+ * (ngày thứ n của kỳ này đặt cạnh ngày thứ n của kỳ trước). Trả về chuỗi đủ mọi ngày của kỳ hiện tại.
+ */
+export const alignComparison = (
+  current: DailyStat[],
+  previous: DailyStat[],
+  range: DateRange,
+  comparison: DateRange
+): DailyStat[] => {
+  const currentByDate = new Map(current.map(s => [s.date, s]));
+  const previousByDate = new Map(previous.map(s => [s.date, s]));
+  const length = daysBetween(range.start, range.end) + 1;
+  const previousLength = daysBetween(comparison.start, comparison.end) + 1;
+
+  return Array.from({ length }, (_, i) => {
+    const date = addDays(range.start, i);
+    const stat = currentByDate.get(date) || { date, orderCount: 0, revenue: 0 };
+    if (i >= previousLength) return stat;
+    const previousDate = addDays(comparison.start, i);
+    return { ...stat, previousDate, previousRevenue: previousByDate.get(previousDate)?.revenue || 0 };
+  });
+};
+
+// Khóa nhóm của một ngày: ngày đầu tiên của tuần (thứ Hai) / tháng / quý chứa ngày đó
+export const getBucketKey = (dateKey: string, granularity: Granularity): string => {
+  switch (granularity) {
+    case 'day':
+      return dateKey;
+    case 'week':
+      return startOfWeek(dateKey);
+    case 'month':
+      return `${dateKey.slice(0, 7)}-01`;
+    case 'quarter': {
+      const month = Number(dateKey.slice(5, 7));
+      return `${dateKey.slice(0, 4)}-${String(month - ((month - 1) % 3)).padStart(2, '0')}-01`;
+    }
+  }
+};
+
+/** Nhãn của một nhóm: "03/03" (ngày, tuần), "T3/2026" (tháng), "Q1/2026" (quý). `long` dùng cho tooltip. */
+export const formatBucketLabel = (bucketKey: string, granularity: Granularity, long = false): string => {
+  const [y, m] = bucketKey.split('-');
+  switch (granularity) {
+    case 'day':
+      return formatDateKey(bucketKey, long);
+    case 'week':
+      return long ? `Tuần ${formatDateKey(bucketKey, false)} - ${formatDateKey(addDays(bucketKey, 6))}` : formatDateKey(bucketKey, false);
+    case 'month':
+      return `T${Number(m)}/${y}`;
+    case 'quarter':
+      return `Q${Math.floor((Number(m) - 1) / 3) + 1}/${y}`;
+  }
+};
+
+// Gom thống kê theo ngày thành theo tuần/tháng/quý (cộng dồn cả doanh thu kỳ so sánh, lượt khách mới / quay lại nếu có)
+export const rebucketStats = (stats: DailyStat[], granularity: Granularity): DailyStat[] => {
+  if (granularity === 'day') return stats;
+
+  const buckets = new Map<string, DailyStat>();
+  stats.forEach(stat => {
+    const key = getBucketKey(stat.date, granularity);
+    const bucket = buckets.get(key) || { date: key, orderCount: 0, revenue: 0 };
+    bucket.orderCount += stat.orderCount;
+    bucket.revenue += stat.revenue;
+    if (stat.previousRevenue !== undefined) bucket.previousRevenue = (bucket.previousRevenue || 0) + stat.previousRevenue;
+    if (stat.newCustomers !== undefined) bucket.newCustomers = (bucket.newCustomers || 0) + stat.newCustomers;
+    if (stat.returningCustomers !== undefined) bucket.returningCustomers = (bucket.returningCustomers || 0) + stat.returningCustomers;
+    buckets.set(key, bucket);
+  });
+
+  return Array.from(buckets.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export interface CumulativePoint {
+  date: string;
+  actual?: number; // Doanh thu lũy kế tới hết ngày (không có với các ngày chưa tới)
+  target?: number; // Mức lũy kế cần đạt nếu bán đều tới mục tiêu cuối tháng
+}
+
+/** Doanh thu lũy kế từng ngày của tháng `month` (YYYY-MM) cùng đường tiến độ đều tới `target`. */
+export const buildMonthCumulative = (stats: DailyStat[], month: string, target: number, today: string): CumulativePoint[] => {
+  const revenueByDate = new Map(stats.map(s => [s.date, s.revenue]));
+  const start = `${month}-01`;
+  const length = daysBetween(start, addMonths(start, 1));
+
+  let running = 0;
+  return Array.from({ length }, (_, i) => {
+    const date = addDays(start, i);
+    running += revenueByDate.get(date) || 0;
+    return {
+      date,
+      actual: date <= today ? running : undefined,
+      target: target > 0 ? (target * (i + 1)) / length : undefined
+    };
+  });
+};
+
+export interface HeatmapCell {
+  orderCount: number; // Số dòng đơn
+  quantity: number;
+  revenue: number;
+}
+
+export interface OrderHeatmap {
+  cells: HeatmapCell[][]; // [thứ: 0 = Thứ 2 ... 6 = Chủ nhật][giờ 0-23]
+  untimedCount: number; // Đơn chỉ có ngày, không có giờ (00:00:00) — không đưa vào bản đồ
+}
+
+/** Gom đơn theo thứ trong tuần × giờ trong ngày (múi giờ kinh doanh). */
+export const buildOrderHeatmap = (orders: Order[]): OrderHeatmap => {
+  const cells = Array.from({ length: 7 }, () =>
+    Array.from({ length: 24 }, () => ({ orderCount: 0, quantity: 0, revenue: 0 }))
+  );
+  let untimedCount = 0;
+
+  orders.forEach(order => {
+    const parts = getZonedParts(order.date);
+    if (parts.hour === 0 && parts.minute === 0 && parts.second === 0) {
+      untimedCount++;
+      return;
+    }
+    const cell = cells[(parts.weekday + 6) % 7][parts.hour];
+    cell.orderCount++;
+    cell.quantity += order.quantity;
+    cell.revenue += order.amount;
+  });
+
+  return { cells, untimedCount };
+};
@@ -0,0 +1,23 @@
+// Helpers đọc/ghi cấu hình lưu cục bộ trên trình duyệt (localStorage)
+const STORAGE_PREFIX = 'thongke:';
+
+export const loadFromStorage = <T>(key: string, fallback: T): T => {
+  // Máy chủ Node (server/) dùng chung một số module dịch vụ nhưng không có localStorage
+  if (typeof localStorage === 'undefined') return fallback;
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    if (raw === null) return fallback;
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`Không đọc được "${key}" từ localStorage:`, error);
+    return fallback;
+  }
+};
+
+export const saveToStorage = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Không lưu được "${key}" vào localStorage:`, error);
+  }
+};
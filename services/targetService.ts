@@ -0,0 +1,125 @@
+import { MonthlyTarget } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+import { addDays, addMonths, daysBetween } from './dateUtils';
+
+const TARGETS_KEY = 'revenueTargets';
+const LEGACY_TARGET_KEY = 'monthlyRevenueTarget'; // Trước đây: một mục tiêu dùng chung cho mọi tháng
+const EXPORT_VERSION = 1;
+
+// Mục tiêu theo tháng, khóa YYYY-MM
+export type RevenueTargets = Record<string, MonthlyTarget>;
+
+const EMPTY_TARGET: MonthlyTarget = { total: 0, bySource: {} };
+
+const isMonthKey = (value: string) => /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+
+const toAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+
+// Chỉ giữ tháng hợp lệ và số tiền dương; tháng không còn mục tiêu nào thì bỏ
+const sanitizeTargets = (raw: unknown): RevenueTargets => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const targets: RevenueTargets = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([month, value]) => {
+    if (!isMonthKey(month) || !value || typeof value !== 'object') return;
+    const { total, bySource } = value as Partial<MonthlyTarget>;
+    const sources = Object.fromEntries(
+      Object.entries(bySource && typeof bySource === 'object' ? bySource : {})
+        .map(([id, amount]) => [id, toAmount(amount)] as const)
+        .filter(([, amount]) => amount > 0)
+    );
+    if (toAmount(total) > 0 || Object.keys(sources).length > 0) {
+      targets[month] = { total: toAmount(total), bySource: sources };
+    }
+  });
+  return targets;
+};
+
+/** Đọc mục tiêu đã lưu; mục tiêu chung kiểu cũ (nếu có) được chuyển thành mục tiêu của `currentMonth`. */
+export const loadRevenueTargets = (currentMonth: string): RevenueTargets => {
+  const targets = sanitizeTargets(loadFromStorage<unknown>(TARGETS_KEY, {}));
+  const legacy = toAmount(loadFromStorage<unknown>(LEGACY_TARGET_KEY, 0));
+  if (legacy > 0) {
+    if (!targets[currentMonth]) targets[currentMonth] = { total: legacy, bySource: {} };
+    saveRevenueTargets(targets);
+    saveToStorage(LEGACY_TARGET_KEY, 0);
+  }
+  return targets;
+};
+
+export const saveRevenueTargets = (targets: RevenueTargets) => {
+  saveToStorage(TARGETS_KEY, targets);
+};
+
+export const getMonthTarget = (targets: RevenueTargets, month: string): MonthlyTarget => targets[month] || EMPTY_TARGET;
+
+/** Đặt mục tiêu tổng (`sourceId` = null) hoặc của một nguồn cho tháng `month`; 0 = bỏ mục tiêu. */
+export const updateMonthTarget = (targets: RevenueTargets, month: string, sourceId: string | null, amount: number): RevenueTargets => {
+  const current = getMonthTarget(targets, month);
+  const next = sourceId === null
+    ? { ...current, total: amount }
+    : { ...current, bySource: { ...current.bySource, [sourceId]: amount } };
+  const { [month]: _, ...rest } = targets;
+  return { ...rest, ...sanitizeTargets({ [month]: next }) };
+};
+
+/**
+ * Mục tiêu áp dụng cho các nguồn đang chọn: khi xem đủ mọi nguồn thì ưu tiên mục tiêu tổng,
+ * còn lại (hoặc khi chưa đặt tổng) cộng mục tiêu riêng của các nguồn đang chọn.
+ */
+export const resolveTarget = (target: MonthlyTarget, selectedSourceIds: string[], allSourceIds: string[]): number => {
+  const isAllSources = allSourceIds.every(id => selectedSourceIds.includes(id));
+  const sourceSum = selectedSourceIds.reduce((sum, id) => sum + (target.bySource[id] || 0), 0);
+  return isAllSources && target.total > 0 ? target.total : sourceSum;
+};
+
+export interface TargetProgress {
+  month: string;
+  target: number;
+  actual: number;
+  percent: number; // Đã đạt bao nhiêu % mục tiêu
+  daysInMonth: number;
+  elapsedDays: number; // Số ngày đã qua (tính cả hôm nay)
+  remainingDays: number; // Số ngày còn lại, tính cả hôm nay
+  expectedByNow: number; // Mức cần có tới hết hôm nay nếu bán đều
+  requiredPerDay: number; // Cần bán mỗi ngày còn lại để đạt mục tiêu (0 khi đã đạt)
+}
+
+/** Tiến độ của tháng `month` tính tới `today` (tháng đã qua: đủ ngày, tháng chưa tới: chưa ngày nào). */
+export const buildTargetProgress = (month: string, target: number, actual: number, today: string): TargetProgress => {
+  const monthStart = `${month}-01`;
+  const daysInMonth = daysBetween(monthStart, addMonths(monthStart, 1));
+  const monthEnd = addDays(monthStart, daysInMonth - 1);
+  const elapsedDays = today < monthStart ? 0 : today > monthEnd ? daysInMonth : daysBetween(monthStart, today) + 1;
+  // Hôm nay vẫn còn bán được nên vẫn tính là ngày còn lại
+  const remainingDays = today > monthEnd ? 0 : daysInMonth - Math.max(0, elapsedDays - 1);
+  const missing = Math.max(0, target - actual);
+
+  return {
+    month,
+    target,
+    actual,
+    percent: target > 0 ? (actual / target) * 100 : 0,
+    daysInMonth,
+    elapsedDays,
+    remainingDays,
+    expectedByNow: (target * elapsedDays) / daysInMonth,
+    requiredPerDay: remainingDays > 0 ? missing / remainingDays : 0
+  };
+};
+
+export const exportTargetsJson = (targets: RevenueTargets) =>
+  JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), targets }, null, 2);
+
+/** Đọc file JSON đã xuất (hoặc đối tượng mục tiêu trần); trả về lỗi dạng chữ khi không hợp lệ. */
+export const parseTargetsJson = (text: string): { error: string } | { targets: RevenueTargets } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: 'File không phải JSON hợp lệ' };
+  }
+  const raw = data && typeof data === 'object' && 'targets' in data ? (data as { targets: unknown }).targets : data;
+  const targets = sanitizeTargets(raw);
+  if (Object.keys(targets).length === 0) return { error: 'File không có mục tiêu tháng nào' };
+  return { targets };
+};
@@ -0,0 +1,54 @@
+import { DatePresetId, isDatePreset } from './dateRanges';
+import { Granularity, GRANULARITIES } from './statsService';
+
+// Khoảng ngày và độ chi tiết đang xem, lưu trên URL để đánh dấu / chia sẻ:
+// ?range=last30&group=week hoặc ?from=2026-01-01&to=2026-01-31&group=month
+export interface ViewState {
+  preset: DatePresetId | 'custom';
+  start: string;
+  end: string;
+  granularity: Granularity;
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Đọc trạng thái từ URL hiện tại; bỏ qua các phần không có hoặc không hợp lệ. */
+export const readViewStateFromUrl = (): Partial<ViewState> => {
+  const params = new URLSearchParams(window.location.search);
+  const state: Partial<ViewState> = {};
+
+  const range = params.get('range');
+  const from = params.get('from') || '';
+  const to = params.get('to') || '';
+  if (range && isDatePreset(range)) {
+    state.preset = range;
+  } else if ((from || to) && (!from || DATE_KEY_PATTERN.test(from)) && (!to || DATE_KEY_PATTERN.test(to))) {
+    state.preset = 'custom';
+    state.start = from;
+    state.end = to;
+  }
+
+  const group = params.get('group');
+  if (group && GRANULARITIES.some(g => g.id === group)) state.granularity = group as Granularity;
+  return state;
+};
+
+// Mốc lọc nhanh lưu theo tên (luôn tương đối so với hôm nay), khoảng tùy chỉnh lưu theo ngày cụ thể
+export const writeViewStateToUrl = (state: ViewState) => {
+  const params = new URLSearchParams(window.location.search);
+  ['range', 'from', 'to', 'group'].forEach(key => params.delete(key));
+
+  if (state.preset === 'custom') {
+    if (state.start) params.set('from', state.start);
+    if (state.end) params.set('to', state.end);
+  } else {
+    params.set('range', state.preset);
+  }
+  if (state.granularity !== 'day') params.set('group', state.granularity);
+
+  const query = params.toString();
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(null, '', url);
+  }
+};
@@ -5,7 +5,7 @@ export interface RawOrderItem {
 
 // Normalized data structure for the app
 export interface Order {
-  id: string;
+  id: string; // Ổn định giữa các lần tải: theo cột mã đơn, hoặc mã băm nội dung dòng
   date: string; // ISO date string YYYY-MM-DD
   amount: number; // Tổng Tiền
   quantity: number; // Số Đơn
@@ -13,13 +13,86 @@ export interface Order {
   details: string; // Chi Tiết (Nội dung cmt/đơn hàng)
   facebookLink: string; // Link Facebook
   originalData: RawOrderItem;
+  sourceId: string; // Nguồn dữ liệu chứa đơn hàng
+  sourceName: string;
+  rowNumber: number; // Số dòng trong Sheet (dòng tiêu đề = 1)
+  warnings: ParseWarning[]; // Các ô trống/không hợp lệ đã được thay giá trị mặc định
+  duplicateOf?: string; // id của dòng đầu tiên có cùng mã đơn / cùng nội dung
+  customerKey?: string; // Khóa khách hàng của dòng gộp
   subOrders?: Order[]; // Danh sách đơn hàng con khi gộp
 }
 
+// Trạng thái xử lý đơn: chốt / đã gửi / đã giao / hoàn / hủy. Không có trong Sheet, lưu cục bộ theo Order.id
+export type OrderStatus = 'confirmed' | 'shipped' | 'delivered' | 'returned' | 'cancelled';
+
+export type PaymentStatus = 'unpaid' | 'deposit' | 'paid';
+
+export interface OrderTracking {
+  status: OrderStatus;
+  payment: PaymentStatus;
+  shippingCode: string; // Mã vận đơn
+  note: string; // Ghi chú nội bộ
+  updatedAt: number;
+}
+
+// Mục tiêu doanh thu của một tháng: tổng (toàn shop) và / hoặc theo từng nguồn dữ liệu (DataSource.id)
+export interface MonthlyTarget {
+  total: number; // 0 = chưa đặt
+  bySource: Record<string, number>;
+}
+
+// Nguồn dữ liệu: Google Sheet (link chia sẻ hoặc link publish CSV) hoặc file CSV bất kỳ
+export type DataSourceType = 'google_sheet' | 'csv';
+
+// Các trường của Order có thể ghép với cột trong Sheet
+export type OrderField = 'date' | 'customerName' | 'quantity' | 'amount' | 'details' | 'facebookLink' | 'orderCode';
+
+// Ghép cột thủ công: trường -> tên cột (chữ thường) trong dòng tiêu đề
+export type ColumnMapping = Partial<Record<OrderField, string>>;
+
+export interface DataSource {
+  id: string;
+  name: string;
+  url: string;
+  type: DataSourceType;
+  columnMapping?: ColumnMapping;
+}
+
+// Cảnh báo khi đọc một ô trong Sheet
+export interface ParseWarning {
+  rowNumber: number;
+  field: OrderField | null; // null: lỗi cấu trúc của dòng ở cột không ghép với trường nào
+  column: string; // Tên cột ('' nếu không tìm thấy cột cho trường này)
+  rawValue: string;
+  assumed: string; // Giá trị đã dùng thay thế
+}
+
 export interface DailyStat {
   date: string;
   orderCount: number;
   revenue: number;
+  previousDate?: string; // Ngày tương ứng ở kỳ so sánh
+  previousRevenue?: number; // Doanh thu ngày tương ứng ở kỳ so sánh
+  newCustomers?: number; // Số khách mua lần đầu trong ngày
+  returningCustomers?: number; // Số khách đã từng mua trước đó
+}
+
+// Sản phẩm trong danh mục, dùng để nhận diện sản phẩm trong nội dung đơn (Order.details)
+export interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  unitPrice: number; // 0 = chưa có giá
+  aliases: string[]; // Từ khóa / tên gọi khác xuất hiện trong nội dung đơn
+}
+
+// Một sản phẩm nhận diện được trong nội dung đơn
+export interface ProductMatch {
+  productId: string;
+  quantity: number;
+  size?: string;
+  color?: string;
+  revenue: number; // Phần doanh thu của đơn phân bổ cho sản phẩm này
 }
 
 export interface CustomerStat {
@@ -29,6 +102,23 @@ export interface CustomerStat {
   lastOrderDate: string;
 }
 
+// Phân khúc RFM (Recency - Frequency - Monetary)
+export type RfmSegment = 'vip' | 'loyal' | 'new' | 'promising' | 'at_risk' | 'lost' | 'regular';
+
+// Hồ sơ khách hàng trọn đời (mọi ngày, không theo bộ lọc ngày)
+export interface CustomerProfile extends CustomerStat {
+  key: string;
+  facebookLink: string;
+  firstOrderDate: string;
+  orderCount: number; // Số lần mua (số dòng đơn)
+  averageBasket: number; // Doanh thu trung bình mỗi lần mua
+  orderFrequencyDays: number | null; // Số ngày trung bình giữa hai lần mua (null nếu mới mua 1 lần)
+  recencyDays: number; // Số ngày kể từ lần mua gần nhất
+  rfm: { r: number; f: number; m: number }; // Điểm 1-5
+  segment: RfmSegment;
+  orders: Order[]; // Toàn bộ đơn, mới nhất trước
+}
+
 export enum LoadingState {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
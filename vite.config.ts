@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -8,11 +9,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // GEMINI_API_KEY chỉ nằm ở máy chủ API (server/index.ts), không được đưa vào bundle của trình duyệt
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      test: {
+        // Máy chạy test ở múi giờ khác múi giờ kinh doanh: kết quả không được phụ thuộc múi giờ của máy
+        env: { TZ: 'America/Los_Angeles' },
       },
       resolve: {
         alias: {